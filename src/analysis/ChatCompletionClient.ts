@@ -0,0 +1,181 @@
+import axios from "axios";
+import { ChatMessage, Logger, ProcessingStage } from "../types";
+import { CancelledError, ChatApiError } from "../errors";
+import { createProxyAgents, ProxyAgents } from "../http";
+import defaultLogger from "../utils/logger";
+
+export const SILICONFLOW_CHAT_COMPLETIONS_URL =
+  "https://api.siliconflow.cn/v1/chat/completions";
+export const SILICONFLOW_DEFAULT_CHAT_MODEL = "Qwen/Qwen2.5-7B-Instruct";
+export const OPENAI_CHAT_COMPLETIONS_URL =
+  "https://api.openai.com/v1/chat/completions";
+export const OPENAI_DEFAULT_CHAT_MODEL = "gpt-4o-mini";
+
+/**
+ * OpenAI 兼容对话补全接口的配置选项
+ */
+export interface ChatCompletionClientOptions {
+  /** API 密钥 */
+  apiKey: string;
+  /** 对话补全接口完整 URL，默认: https://api.siliconflow.cn/v1/chat/completions */
+  baseUrl?: string;
+  /** 模型，默认: Qwen/Qwen2.5-7B-Instruct */
+  model?: string;
+  /** 提供方名称，默认: 未设置 baseUrl 时 siliconflow，否则 openai-compatible */
+  name?: string;
+  /** 请求超时（毫秒），默认不限制 */
+  timeout?: number;
+  /** 采样温度，默认由提供方决定 */
+  temperature?: number;
+  /** 单次回复的最大 token 数，默认由提供方决定 */
+  maxTokens?: number;
+  /** 代理地址，支持 http(s):// 和 socks://，默认读取环境变量中的代理 */
+  proxy?: string;
+  logger?: Logger;
+}
+
+/**
+ * 单次对话补全请求的选项
+ */
+export interface ChatCompletionRequestOptions {
+  /** 要求以 JSON 对象输出（response_format: json_object），需要模型支持 */
+  json?: boolean;
+  /** 采样温度，默认使用客户端的配置 */
+  temperature?: number;
+  /** 发起请求的处理阶段，用于错误信息，默认: analysis */
+  stage?: ProcessingStage;
+  /** 取消信号，触发后中止请求并以 CancelledError 拒绝 */
+  signal?: AbortSignal;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: Record<string, number>;
+}
+
+/**
+ * OpenAI 兼容的对话补全客户端，SiliconFlow、OpenAI 等提供方通用
+ * @example
+ * ```typescript
+ * const client = new ChatCompletionClient({
+ *   apiKey: process.env.OPENAI_API_KEY!,
+ *   baseUrl: OPENAI_CHAT_COMPLETIONS_URL,
+ *   model: OPENAI_DEFAULT_CHAT_MODEL,
+ * });
+ * ```
+ */
+export class ChatCompletionClient {
+  readonly name: string;
+  readonly model: string;
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly timeout?: number;
+  private readonly temperature?: number;
+  private readonly maxTokens?: number;
+  private readonly proxyAgents?: ProxyAgents;
+  private readonly logger: Logger;
+
+  constructor(options: ChatCompletionClientOptions) {
+    if (!options.apiKey) {
+      throw new Error("apiKey is required");
+    }
+
+    this.name =
+      options.name || (options.baseUrl ? "openai-compatible" : "siliconflow");
+    this.model = options.model || SILICONFLOW_DEFAULT_CHAT_MODEL;
+    this.apiKey = options.apiKey;
+    this.baseUrl = options.baseUrl || SILICONFLOW_CHAT_COMPLETIONS_URL;
+    this.timeout = options.timeout;
+    this.temperature = options.temperature;
+    this.maxTokens = options.maxTokens;
+    this.logger = options.logger ?? defaultLogger;
+    this.proxyAgents = options.proxy
+      ? createProxyAgents(options.proxy)
+      : undefined;
+  }
+
+  /**
+   * 发送对话补全请求，返回模型回复的文本
+   */
+  async complete(
+    messages: ChatMessage[],
+    options: ChatCompletionRequestOptions = {}
+  ): Promise<string> {
+    const { stage = "analysis", signal } = options;
+    const temperature = options.temperature ?? this.temperature;
+    const body = {
+      model: this.model,
+      messages,
+      ...(temperature !== undefined ? { temperature } : {}),
+      ...(this.maxTokens !== undefined ? { max_tokens: this.maxTokens } : {}),
+      ...(options.json ? { response_format: { type: "json_object" } } : {}),
+    };
+
+    this.logger.debug("发送对话补全请求", {
+      provider: this.name,
+      apiUrl: this.baseUrl,
+      model: this.model,
+      messageCount: messages.length,
+    });
+
+    let response;
+    try {
+      response = await axios.post<ChatCompletionResponse>(this.baseUrl, body, {
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        timeout: this.timeout,
+        signal,
+        ...(this.proxyAgents ? { ...this.proxyAgents, proxy: false } : {}),
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new CancelledError(stage, "对话补全请求已取消", {
+          cause: error,
+        });
+      }
+      throw this.toApiError(error, stage);
+    }
+
+    const content = response.data?.choices?.[0]?.message?.content;
+    this.logger.debug("对话补全响应", {
+      provider: this.name,
+      apiStatus: response.status,
+      contentLength: content?.length || 0,
+      usage: response.data?.usage,
+    });
+
+    if (typeof content !== "string" || !content.trim()) {
+      throw new ChatApiError("对话补全接口未返回内容", stage, {
+        status: response.status,
+        provider: this.name,
+      });
+    }
+    return content;
+  }
+
+  /**
+   * 将请求异常转换为 ChatApiError，尽量保留接口返回的错误描述
+   */
+  private toApiError(error: unknown, stage: ProcessingStage): ChatApiError {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+      const detail =
+        data?.error?.message ||
+        data?.message ||
+        (typeof data === "string" ? data : "");
+      return new ChatApiError(
+        `对话补全请求失败: ${detail || error.message}`,
+        stage,
+        { status: error.response?.status, provider: this.name, cause: error }
+      );
+    }
+
+    return new ChatApiError(
+      `对话补全请求失败: ${error instanceof Error ? error.message : "未知错误"}`,
+      stage,
+      { provider: this.name, cause: error }
+    );
+  }
+}
@@ -0,0 +1,191 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { ChatCompletionClient } from "./ChatCompletionClient";
+import { ChatTranscriptAnalyzer } from "./ChatTranscriptAnalyzer";
+import { AnalysisError, ChatApiError } from "../errors";
+import { Logger, Transcript } from "../types";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+interface MockReply {
+  status?: number;
+  body: unknown;
+}
+
+/**
+ * 本地的对话补全接口：按顺序返回预设的响应，并记录收到的请求体
+ */
+class MockChatServer {
+  readonly requests: any[] = [];
+  private readonly replies: MockReply[] = [];
+  private readonly server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      this.requests.push({
+        authorization: req.headers.authorization,
+        body: JSON.parse(Buffer.concat(chunks).toString("utf-8")),
+      });
+      const reply = this.replies.shift() ?? { status: 500, body: {} };
+      res.writeHead(reply.status ?? 200, {
+        "Content-Type": "application/json",
+      });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/v1/chat/completions`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  reply(reply: MockReply): void {
+    this.replies.push(reply);
+  }
+
+  /** 以模型回复内容构造响应 */
+  replyContent(content: string | null): void {
+    this.reply({ body: { choices: [{ message: { content } }] } });
+  }
+}
+
+const transcript: Transcript = {
+  text: "大家好，今天去爬山。山顶风景很好，下次还来。",
+  provider: "fixture",
+  model: "replay",
+  segments: [
+    { start: 0, end: 2.5, text: "大家好，今天去爬山。" },
+    { start: 2.5, end: 6, text: "山顶风景很好，" },
+    { start: 6, end: 8, text: "下次还来。" },
+  ],
+};
+
+describe("ChatTranscriptAnalyzer", () => {
+  let server: MockChatServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = new MockChatServer();
+    baseUrl = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  function createAnalyzer(jsonMode = false): ChatTranscriptAnalyzer {
+    return new ChatTranscriptAnalyzer({
+      client: new ChatCompletionClient({
+        apiKey: "test-key",
+        baseUrl,
+        model: "test-model",
+        logger: silentLogger,
+      }),
+      jsonMode,
+      maxKeywords: 2,
+      logger: silentLogger,
+    });
+  }
+
+  it("JSON 模式下请求 json_object 并解析章节时间", async () => {
+    server.replyContent(
+      JSON.stringify({
+        summary: " 周末爬山的记录 ",
+        keywords: ["爬山", "风景", "爬山", "周末"],
+        chapters: [
+          { title: "山顶", summary: "风景", start: "0:02.5" },
+          { title: "开场", start: 0 },
+        ],
+      })
+    );
+
+    const analysis = await createAnalyzer(true).analyze(transcript, {
+      title: "爬山",
+    });
+
+    const [request] = server.requests;
+    expect(request.authorization).toBe("Bearer test-key");
+    expect(request.body.model).toBe("test-model");
+    expect(request.body.response_format).toEqual({ type: "json_object" });
+    expect(request.body.messages[1].content).toContain("[2.5] 山顶风景很好，");
+    expect(analysis).toEqual({
+      summary: "周末爬山的记录",
+      keywords: ["爬山", "风景"],
+      chapters: [
+        { title: "开场", summary: undefined, start: 0, end: 2.5 },
+        { title: "山顶", summary: "风景", start: 2.5, end: 8 },
+      ],
+      provider: "openai-compatible",
+      model: "test-model",
+    });
+  });
+
+  it("未开启 JSON 模式时从代码块和说明文字中取出 JSON", async () => {
+    server.replyContent(
+      '以下是分析结果：\n```json\n{"summary": "爬山", "keywords": ["山"], "chapters": [{"title": "全文", "start": 99}]}\n```\n希望对你有帮助。'
+    );
+
+    const analysis = await createAnalyzer().analyze({
+      text: transcript.text,
+      provider: "fixture",
+      model: "replay",
+    });
+
+    expect(server.requests[0].body.response_format).toBeUndefined();
+    expect(analysis.summary).toBe("爬山");
+    expect(analysis.keywords).toEqual(["山"]);
+    // 转写文本没有时间戳时去掉模型给出的时间
+    expect(analysis.chapters).toEqual([
+      { title: "全文", summary: undefined, start: undefined },
+    ]);
+  });
+
+  it("模型输出无法解析时抛出 AnalysisError", async () => {
+    server.replyContent("抱歉，我无法完成这个任务。");
+
+    const error = await createAnalyzer()
+      .analyze(transcript)
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(AnalysisError);
+    expect(error.code).toBe("ANALYSIS_FAILED");
+    expect(error.stage).toBe("analysis");
+  });
+
+  it("接口返回错误时抛出带状态码和错误描述的 ChatApiError", async () => {
+    server.reply({
+      status: 401,
+      body: { error: { message: "Invalid API key" } },
+    });
+
+    const error = await createAnalyzer()
+      .analyze(transcript)
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ChatApiError);
+    expect(error.code).toBe("CHAT_API_FAILED");
+    expect(error.status).toBe(401);
+    expect(error.provider).toBe("openai-compatible");
+    expect(error.message).toContain("Invalid API key");
+  });
+
+  it("接口未返回内容时抛出 ChatApiError", async () => {
+    server.replyContent(null);
+
+    await expect(createAnalyzer().analyze(transcript)).rejects.toBeInstanceOf(
+      ChatApiError
+    );
+  });
+});
@@ -0,0 +1,246 @@
+import {
+  AnalyzeOptions,
+  Logger,
+  Transcript,
+  TranscriptAnalysis,
+  TranscriptAnalyzer,
+  TranscriptChapter,
+  TranscriptSegment,
+} from "../types";
+import { AnalysisError } from "../errors";
+import defaultLogger from "../utils/logger";
+import { ChatCompletionClient } from "./ChatCompletionClient";
+
+export const DEFAULT_ANALYSIS_SYSTEM_PROMPT =
+  "你是短视频内容分析助手，根据视频的语音转写文本生成摘要、关键词和章节。" +
+  "只输出 JSON，不要输出其他内容。";
+
+export const DEFAULT_ANALYSIS_PROMPT_TEMPLATE = `请分析下面的短视频转写文本，按以下格式输出 JSON：
+{"summary": "不超过 {summaryLength} 字的摘要", "keywords": ["关键词，最多 {maxKeywords} 个"], "chapters": [{"title": "章节标题", "summary": "一句话概括", "start": 章节开始时间}]}
+
+按话题划分章节，短视频通常只有 1-5 个章节。转写文本每行开头方括号内的数字是该句的开始时间（秒），章节的 start 取章节第一句的时间；转写文本没有时间时省略 start。
+
+标题：{title}
+
+转写文本：
+{transcript}`;
+
+/**
+ * 解析模型给出的时间：秒数或 mm:ss、hh:mm:ss
+ */
+function parseTime(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? Math.max(0, value) : undefined;
+  }
+  if (
+    typeof value === "string" &&
+    /^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(value.trim())
+  ) {
+    return value
+      .trim()
+      .split(":")
+      .reduce((total, part) => total * 60 + Number(part), 0);
+  }
+  return undefined;
+}
+
+/**
+ * ChatTranscriptAnalyzer 的配置选项
+ */
+export interface ChatTranscriptAnalyzerOptions {
+  /** 对话补全客户端 */
+  client: ChatCompletionClient;
+  /** 系统提示，默认: DEFAULT_ANALYSIS_SYSTEM_PROMPT */
+  systemPrompt?: string;
+  /**
+   * 用户提示模板，默认: DEFAULT_ANALYSIS_PROMPT_TEMPLATE。
+   * 支持 {title}、{transcript}、{maxKeywords}、{summaryLength} 占位符
+   */
+  promptTemplate?: string;
+  /** 关键词数量上限，默认: 8 */
+  maxKeywords?: number;
+  /** 摘要的建议字数，默认: 200 */
+  summaryLength?: number;
+  /** 发送给模型的转写文本最大字符数，超出部分截断，默认: 12000 */
+  maxInputLength?: number;
+  /** 是否要求接口以 JSON 模式输出，需要模型支持，默认: false */
+  jsonMode?: boolean;
+  logger?: Logger;
+}
+
+/**
+ * 基于 OpenAI 兼容对话补全接口的内容分析：生成摘要、关键词和章节，
+ * 识别结果带分段时间戳时章节附带开始和结束时间
+ */
+export class ChatTranscriptAnalyzer implements TranscriptAnalyzer {
+  readonly name: string;
+  readonly model: string;
+  private readonly client: ChatCompletionClient;
+  private readonly systemPrompt: string;
+  private readonly promptTemplate: string;
+  private readonly maxKeywords: number;
+  private readonly summaryLength: number;
+  private readonly maxInputLength: number;
+  private readonly jsonMode: boolean;
+  private readonly logger: Logger;
+
+  constructor(options: ChatTranscriptAnalyzerOptions) {
+    this.client = options.client;
+    this.name = options.client.name;
+    this.model = options.client.model;
+    this.systemPrompt = options.systemPrompt ?? DEFAULT_ANALYSIS_SYSTEM_PROMPT;
+    this.promptTemplate =
+      options.promptTemplate ?? DEFAULT_ANALYSIS_PROMPT_TEMPLATE;
+    this.maxKeywords = options.maxKeywords ?? 8;
+    this.summaryLength = options.summaryLength ?? 200;
+    this.maxInputLength = options.maxInputLength ?? 12000;
+    this.jsonMode = options.jsonMode ?? false;
+    this.logger = options.logger ?? defaultLogger;
+  }
+
+  async analyze(
+    transcript: Transcript,
+    options: AnalyzeOptions = {}
+  ): Promise<TranscriptAnalysis> {
+    const segments = transcript.segments?.filter((s) => s.text.trim());
+    const hasTimestamps = !!segments && segments.length > 0;
+    let input = hasTimestamps
+      ? segments
+          .map((s) => `[${s.start.toFixed(1)}] ${s.text.trim()}`)
+          .join("\n")
+      : transcript.text.trim();
+    if (input.length > this.maxInputLength) {
+      this.logger.warn("转写文本过长，截断后分析", {
+        length: input.length,
+        maxInputLength: this.maxInputLength,
+      });
+      input = input.slice(0, this.maxInputLength);
+    }
+
+    const prompt = this.promptTemplate.replace(
+      /\{(title|transcript|maxKeywords|summaryLength)\}/g,
+      (_match, name: string) => {
+        switch (name) {
+          case "title":
+            return options.title?.trim() || "（无）";
+          case "transcript":
+            return input;
+          case "maxKeywords":
+            return String(this.maxKeywords);
+          default:
+            return String(this.summaryLength);
+        }
+      }
+    );
+
+    const content = await this.client.complete(
+      [
+        { role: "system", content: this.systemPrompt },
+        { role: "user", content: prompt },
+      ],
+      { json: this.jsonMode, stage: "analysis", signal: options.signal }
+    );
+
+    const analysis = this.parseAnalysis(
+      content,
+      hasTimestamps ? segments : undefined
+    );
+    this.logger.debug("内容分析完成", {
+      provider: this.name,
+      model: this.model,
+      keywordCount: analysis.keywords.length,
+      chapterCount: analysis.chapters.length,
+    });
+    return analysis;
+  }
+
+  /**
+   * 解析模型输出的 JSON，容忍代码块包裹和前后的说明文字
+   */
+  private parseAnalysis(
+    content: string,
+    segments?: TranscriptSegment[]
+  ): TranscriptAnalysis {
+    const start = content.indexOf("{");
+    const end = content.lastIndexOf("}");
+    let data: any;
+    try {
+      data = JSON.parse(content.slice(start, end + 1));
+    } catch (error) {
+      throw new AnalysisError("模型输出不是有效的 JSON", { cause: error });
+    }
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      throw new AnalysisError("模型输出不是 JSON 对象");
+    }
+
+    const keywords = Array.isArray(data.keywords)
+      ? [
+          ...new Set(
+            data.keywords
+              .filter((word: unknown) => typeof word === "string")
+              .map((word: string) => word.trim())
+              .filter(Boolean) as string[]
+          ),
+        ].slice(0, this.maxKeywords)
+      : [];
+
+    return {
+      summary: typeof data.summary === "string" ? data.summary.trim() : "",
+      keywords,
+      chapters: this.normalizeChapters(data.chapters, segments),
+      provider: this.name,
+      model: this.model,
+    };
+  }
+
+  /**
+   * 整理章节：有分段时间戳时按开始时间排序，结束时间取下一章节的开始时间，
+   * 没有时间戳时去掉模型给出的时间
+   */
+  private normalizeChapters(
+    raw: unknown,
+    segments?: TranscriptSegment[]
+  ): TranscriptChapter[] {
+    if (!Array.isArray(raw)) {
+      return [];
+    }
+
+    const chapters: TranscriptChapter[] = raw
+      .filter(
+        (item: any) =>
+          item && typeof item.title === "string" && item.title.trim()
+      )
+      .map((item: any) => ({
+        title: item.title.trim(),
+        summary:
+          typeof item.summary === "string" && item.summary.trim()
+            ? item.summary.trim()
+            : undefined,
+        start: segments ? parseTime(item.start) : undefined,
+      }));
+    if (!segments) {
+      return chapters;
+    }
+
+    const timed = chapters.some((chapter) => chapter.start !== undefined);
+    if (!timed) {
+      return chapters;
+    }
+    // 缺少开始时间的章节沿用前一章节的时间，保持原有顺序
+    const lastEnd = segments[segments.length - 1].end;
+    let previous = 0;
+    chapters.forEach((chapter) => {
+      chapter.start = Math.min(chapter.start ?? previous, lastEnd);
+      previous = chapter.start;
+    });
+    chapters.sort((a, b) => (a.start as number) - (b.start as number));
+    chapters.forEach((chapter, index) => {
+      const next = chapters[index + 1];
+      chapter.end = Math.max(
+        chapter.start as number,
+        next ? (next.start as number) : lastEnd
+      );
+    });
+    return chapters;
+  }
+}
@@ -0,0 +1,15 @@
+export {
+  ChatCompletionClient,
+  ChatCompletionClientOptions,
+  ChatCompletionRequestOptions,
+  SILICONFLOW_CHAT_COMPLETIONS_URL,
+  SILICONFLOW_DEFAULT_CHAT_MODEL,
+  OPENAI_CHAT_COMPLETIONS_URL,
+  OPENAI_DEFAULT_CHAT_MODEL,
+} from "./ChatCompletionClient";
+export {
+  ChatTranscriptAnalyzer,
+  ChatTranscriptAnalyzerOptions,
+  DEFAULT_ANALYSIS_SYSTEM_PROMPT,
+  DEFAULT_ANALYSIS_PROMPT_TEMPLATE,
+} from "./ChatTranscriptAnalyzer";
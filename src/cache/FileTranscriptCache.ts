@@ -0,0 +1,67 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Logger, TranscriptCache, TranscriptCacheEntry } from "../types";
+import { FileUtils } from "../utils/fileUtils";
+import defaultLogger from "../utils/logger";
+
+/**
+ * 基于文件系统的识别结果缓存，每个条目保存为一个 JSON 文件
+ */
+export class FileTranscriptCache implements TranscriptCache {
+  readonly dir: string;
+  private readonly logger: Logger;
+
+  /**
+   * @param dir 缓存目录，默认: 系统临时目录下的 douyin-text-extractor/transcripts，
+   * 不会写入当前工作目录
+   */
+  constructor(
+    dir: string = path.join(
+      os.tmpdir(),
+      "douyin-text-extractor",
+      "transcripts"
+    ),
+    logger: Logger = defaultLogger
+  ) {
+    this.dir = dir;
+    this.logger = logger;
+  }
+
+  async get(key: string): Promise<TranscriptCacheEntry | null> {
+    const filePath = this.getFilePath(key);
+    try {
+      const content = await fs.promises.readFile(filePath, "utf-8");
+      const entry: TranscriptCacheEntry = JSON.parse(content);
+      // 文件名是哈希，校验原始 key 以防冲突
+      return entry.key === key ? entry : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.logger.warn("读取识别缓存失败", {
+          filePath,
+          error: error instanceof Error ? error.message : "未知错误",
+        });
+      }
+      return null;
+    }
+  }
+
+  async set(key: string, entry: TranscriptCacheEntry): Promise<void> {
+    FileUtils.ensureDir(this.dir);
+    const filePath = this.getFilePath(key);
+    // 先写临时文件再重命名，避免并发读到半个文件
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(entry), "utf-8");
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.getFilePath(key), { force: true });
+  }
+
+  private getFilePath(key: string): string {
+    const hash = crypto.createHash("sha256").update(key).digest("hex");
+    return path.join(this.dir, `${hash}.json`);
+  }
+}
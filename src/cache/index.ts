@@ -0,0 +1,20 @@
+import * as crypto from "crypto";
+
+export { FileTranscriptCache } from "./FileTranscriptCache";
+
+/**
+ * 生成缓存 key：videoId、识别提供方、模型和影响识别结果的选项
+ */
+export function buildTranscriptCacheKey(
+  videoId: string,
+  provider: string,
+  model: string,
+  options: Record<string, unknown> = {}
+): string {
+  const optionsHash = crypto
+    .createHash("sha1")
+    .update(JSON.stringify(options))
+    .digest("hex")
+    .slice(0, 12);
+  return `${videoId}|${provider}|${model}|${optionsHash}`;
+}
@@ -0,0 +1,1135 @@
+import * as fs from "fs";
+import * as path from "path";
+import winston from "winston";
+import {
+  AudioProfileName,
+  BatchItemResult,
+  DouyinServiceOptions,
+  DouyinVideoInfo,
+  ExtractTextOptions,
+  Logger,
+  ProcessingProgress,
+  RecognitionOptions,
+  SubtitleFormat,
+  TranscriptCacheMode,
+  TranslationSubtitleMode,
+} from "../types";
+import { AudioExtractionError, DouyinError } from "../errors";
+import { DouyinService } from "../services/DouyinService";
+import { DouyinServer } from "../server";
+import { AUDIO_PROFILES } from "../utils/audioUtils";
+import { FileUtils } from "../utils/fileUtils";
+import { SubtitleUtils } from "../utils/subtitleUtils";
+import { setDefaultLogger } from "../utils/logger";
+import { isLanguageTag } from "../translation";
+import {
+  CliOptionSpecs,
+  CliUsageError,
+  formatOptions,
+  parseArgs,
+  ParsedArgs,
+} from "./args";
+import { EXIT_CODES, exitCodeFor, exitCodeForErrorCode } from "./exitCodes";
+
+const GLOBAL_OPTIONS: CliOptionSpecs = {
+  json: { type: "flag", description: "以 JSON 输出结果和错误（stdout）" },
+  verbose: { type: "flag", short: "v", description: "输出 info 级别日志" },
+  debug: { type: "flag", description: "输出 debug 级别日志" },
+  help: { type: "flag", short: "h", description: "显示帮助信息" },
+};
+
+const SERVICE_OPTIONS: CliOptionSpecs = {
+  "download-dir": {
+    type: "string",
+    valueName: "目录",
+    description: "下载目录 (默认: DOWNLOAD_DIR 或 ./downloads)",
+  },
+  "temp-dir": {
+    type: "string",
+    valueName: "目录",
+    description: "临时目录 (默认: TEMP_DIR 或 ./temp)",
+  },
+  "keep-temp": { type: "flag", description: "不清理临时文件" },
+  proxy: {
+    type: "string",
+    valueName: "地址",
+    description: "代理地址，支持 http(s):// 和 socks:// (默认: PROXY_URL)",
+  },
+  cookies: {
+    type: "string",
+    valueName: "文件",
+    description: "Netscape 格式的 cookies 文件 (默认: COOKIES_FILE)",
+  },
+  "max-file-size": {
+    type: "string",
+    valueName: "大小",
+    description: "视频文件大小上限，如 200MB (默认: MAX_FILE_SIZE)",
+  },
+  "max-duration": {
+    type: "string",
+    valueName: "秒",
+    description: "视频时长上限 (默认: MAX_DURATION)",
+  },
+  retries: {
+    type: "string",
+    valueName: "次数",
+    description: "解析链接的最大重试次数 (默认: 3)",
+  },
+};
+
+const AUDIO_OPTIONS: CliOptionSpecs = {
+  "audio-profile": {
+    type: "string",
+    valueName: "配置",
+    description: "音频配置: original、speech、speech-compact",
+  },
+  streaming: {
+    type: "flag",
+    description: "下载的数据直接送入 ffmpeg，不写入视频文件",
+  },
+};
+
+const SPEECH_OPTIONS: CliOptionSpecs = {
+  "api-key": {
+    type: "string",
+    valueName: "密钥",
+    description: "语音识别 API 密钥 (默认: SPEECH_API_KEY)",
+  },
+  "api-base-url": {
+    type: "string",
+    valueName: "URL",
+    description: "语音识别接口地址 (默认: SPEECH_API_BASE_URL)",
+  },
+  model: {
+    type: "string",
+    valueName: "模型",
+    description: "语音识别模型 (默认: SPEECH_MODEL)",
+  },
+};
+
+const TEXT_OPTIONS: CliOptionSpecs = {
+  language: {
+    type: "string",
+    valueName: "语言",
+    description: "音频语言，如 zh、en (默认自动检测)",
+  },
+  prompt: { type: "string", valueName: "文本", description: "识别提示文本" },
+  hotword: {
+    type: "list",
+    valueName: "词",
+    description: "热词，可重复或用逗号分隔",
+  },
+  "hashtag-hotwords": {
+    type: "flag",
+    description: "把作品的话题标签作为热词",
+  },
+  subtitles: {
+    type: "list",
+    valueName: "格式",
+    description: "生成字幕文件: srt、vtt，可用逗号分隔",
+  },
+  cache: {
+    type: "string",
+    valueName: "模式",
+    description: "识别结果缓存: use、bypass、refresh (默认: use)",
+  },
+  "keep-audio": { type: "flag", description: "保留提取出的音频文件" },
+  "keep-video": { type: "flag", description: "保留下载的视频文件" },
+  analyze: {
+    type: "flag",
+    description: "生成摘要、关键词和章节 (需要 ANALYSIS_API_KEY)",
+  },
+  "no-analyze": { type: "flag", description: "不做内容分析" },
+  "translate-to": {
+    type: "string",
+    valueName: "语言",
+    description: "翻译为指定语言，如 en (需要 TRANSLATION_API_KEY)",
+  },
+  "translation-subtitles": {
+    type: "string",
+    valueName: "模式",
+    description: "翻译字幕内容: bilingual、translated (默认: bilingual)",
+  },
+};
+
+interface CliCommand {
+  summary: string;
+  usage: string;
+  options: CliOptionSpecs;
+  /** 是否需要调用语音识别接口 */
+  speech: boolean;
+}
+
+const COMMANDS: Record<string, CliCommand> = {
+  parse: {
+    summary: "解析分享链接，输出作品信息",
+    usage: "douyin parse <分享链接或分享文本> [选项]",
+    options: { ...SERVICE_OPTIONS },
+    speech: false,
+  },
+  download: {
+    summary: "下载视频，图集作品下载图片和背景音乐",
+    usage: "douyin download <分享链接> [选项]",
+    options: {
+      output: {
+        type: "string",
+        short: "o",
+        valueName: "路径",
+        description: "视频保存路径或目录 (图集保存在下载目录)",
+      },
+      "link-only": {
+        type: "flag",
+        short: "l",
+        description: "只输出下载地址，不下载",
+      },
+      ...SERVICE_OPTIONS,
+    },
+    speech: false,
+  },
+  audio: {
+    summary: "从分享链接或本地视频文件提取音频",
+    usage: "douyin audio <分享链接或视频文件> [选项]",
+    options: {
+      output: {
+        type: "string",
+        short: "o",
+        valueName: "路径",
+        description: "音频保存路径",
+      },
+      "keep-video": { type: "flag", description: "保留下载的视频文件" },
+      ...AUDIO_OPTIONS,
+      ...SERVICE_OPTIONS,
+    },
+    speech: false,
+  },
+  transcribe: {
+    summary: "从分享链接或本地音频文件提取文本",
+    usage: "douyin transcribe <分享链接或音频文件> [选项]",
+    options: {
+      output: {
+        type: "string",
+        short: "o",
+        valueName: "文件",
+        description: "结果保存到文件，.json 保存完整结果，其他保存文本",
+      },
+      ...TEXT_OPTIONS,
+      ...SPEECH_OPTIONS,
+      ...AUDIO_OPTIONS,
+      ...SERVICE_OPTIONS,
+    },
+    speech: true,
+  },
+  batch: {
+    summary: "批量提取文本",
+    usage: "douyin batch <分享链接...> [选项]",
+    options: {
+      input: {
+        type: "string",
+        short: "i",
+        valueName: "文件",
+        description: "从文件读取分享链接，每行一个，# 开头为注释",
+      },
+      output: {
+        type: "string",
+        short: "o",
+        valueName: "目录",
+        description: "保存每个作品的文本和 results.json",
+      },
+      concurrency: {
+        type: "string",
+        short: "c",
+        valueName: "数量",
+        description: "同时处理的条目数 (默认: 2)",
+      },
+      delay: {
+        type: "string",
+        short: "d",
+        valueName: "毫秒",
+        description: "相邻条目开始处理的最小间隔 (默认: 1000)",
+      },
+      ...TEXT_OPTIONS,
+      ...SPEECH_OPTIONS,
+      ...AUDIO_OPTIONS,
+      ...SERVICE_OPTIONS,
+    },
+    speech: true,
+  },
+  serve: {
+    summary: "启动 HTTP 服务",
+    usage: "douyin serve [选项]",
+    options: {
+      port: {
+        type: "string",
+        short: "p",
+        valueName: "端口",
+        description: "监听端口 (默认: PORT 或 3000)",
+      },
+      host: {
+        type: "string",
+        short: "H",
+        valueName: "地址",
+        description: "监听地址 (默认: HOST 或 127.0.0.1)",
+      },
+      token: {
+        type: "string",
+        valueName: "令牌",
+        description: "访问令牌，监听非本机地址时必需 (默认: SERVER_AUTH_TOKEN)",
+      },
+      artifacts: {
+        type: "string",
+        short: "a",
+        valueName: "目录",
+        description: "任务产物目录 (默认: ./artifacts)",
+      },
+      concurrency: {
+        type: "string",
+        short: "c",
+        valueName: "数量",
+        description: "同时运行的任务数 (默认: 1)",
+      },
+      ...SPEECH_OPTIONS,
+      ...AUDIO_OPTIONS,
+      ...SERVICE_OPTIONS,
+    },
+    speech: true,
+  },
+};
+
+/**
+ * DouyinCli 的配置选项
+ */
+export interface DouyinCliOptions {
+  /** 结果输出，默认: process.stdout */
+  stdout?: NodeJS.WritableStream;
+  /** 进度、日志和错误输出，默认: process.stderr */
+  stderr?: NodeJS.WritableStream;
+}
+
+/**
+ * 命令行工具：结果写到 stdout，进度、日志和错误写到 stderr，
+ * 返回值为进程退出码（见 EXIT_CODES）
+ * @example
+ * ```typescript
+ * const code = await new DouyinCli().run(["parse", shareText, "--json"]);
+ * ```
+ */
+export class DouyinCli {
+  private readonly stdout: NodeJS.WritableStream;
+  private readonly stderr: NodeJS.WritableStream;
+  private json = false;
+  private progressVisible = false;
+
+  constructor(options: DouyinCliOptions = {}) {
+    this.stdout = options.stdout ?? process.stdout;
+    this.stderr = options.stderr ?? process.stderr;
+  }
+
+  /**
+   * 执行命令
+   * @param argv 不含 node 和脚本路径的参数
+   * @param signal 取消信号，触发后中止当前命令；serve 命令收到后停止服务
+   */
+  async run(argv: string[], signal?: AbortSignal): Promise<number> {
+    const [name, ...rest] = argv;
+    this.json = rest.includes("--json");
+    this.progressVisible = false;
+
+    if (!name || name === "help" || name === "-h" || name === "--help") {
+      const topic = name === "help" ? rest[0] : undefined;
+      this.print(
+        topic && COMMANDS[topic] ? this.commandHelp(topic) : this.help()
+      );
+      return name ? EXIT_CODES.SUCCESS : EXIT_CODES.USAGE;
+    }
+
+    try {
+      const command = COMMANDS[name];
+      if (!command) {
+        throw new CliUsageError(`未知命令: ${name}`);
+      }
+      const args = parseArgs(rest, { ...command.options, ...GLOBAL_OPTIONS });
+      if (args.options.help) {
+        this.print(this.commandHelp(name));
+        return EXIT_CODES.SUCCESS;
+      }
+
+      const logger = this.createLogger(args);
+      setDefaultLogger(logger);
+      const service = this.createService(command, args, logger);
+      switch (name) {
+        case "parse":
+          return await this.parse(service, args, signal);
+        case "download":
+          return await this.download(service, args, signal);
+        case "audio":
+          return await this.audio(service, args, signal);
+        case "transcribe":
+          return await this.transcribe(service, args, signal);
+        case "batch":
+          return await this.batch(service, args, signal);
+        default:
+          return await this.serve(service, args, logger, signal);
+      }
+    } catch (error) {
+      this.clearProgress();
+      this.reportError(error, name);
+      return exitCodeFor(error);
+    }
+  }
+
+  /**
+   * parse：输出解析出的作品信息
+   */
+  private async parse(
+    service: DouyinService,
+    args: ParsedArgs,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const videoInfo = await service.parseShareUrl(
+      this.requireInput(args),
+      this.retries(args),
+      signal
+    );
+    if (this.json) {
+      this.printJson({ status: "success", data: videoInfo });
+    } else {
+      this.print(this.describe(videoInfo));
+    }
+    return EXIT_CODES.SUCCESS;
+  }
+
+  /**
+   * download：下载视频或图集，--link-only 时只输出下载地址
+   */
+  private async download(
+    service: DouyinService,
+    args: ParsedArgs,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const progress = this.progressReporter();
+    const videoInfo = await service.parseShareUrl(
+      this.requireInput(args),
+      this.retries(args),
+      signal
+    );
+    const images = videoInfo.contentType === "images";
+
+    if (args.options["link-only"]) {
+      const urls = images
+        ? (videoInfo.images || []).map((image) => image.url)
+        : videoInfo.downloadUrls || [videoInfo.downloadUrl];
+      if (this.json) {
+        this.printJson({ status: "success", videoInfo, urls });
+      } else {
+        this.print(urls.join("\n"));
+      }
+      return EXIT_CODES.SUCCESS;
+    }
+
+    if (images) {
+      const result = await service.downloadImagePost(
+        videoInfo,
+        progress,
+        signal
+      );
+      this.clearProgress();
+      if (this.json) {
+        this.printJson({ status: "success", videoInfo, ...result });
+      } else {
+        this.print(
+          [...result.imagePaths, result.musicPath].filter(Boolean).join("\n")
+        );
+      }
+      return EXIT_CODES.SUCCESS;
+    }
+
+    let output = this.string(args, "output");
+    if (output && this.isDirectory(output)) {
+      output = path.join(output, `${videoInfo.videoId}.mp4`);
+    }
+    const videoPath = await service.downloadVideo(
+      videoInfo,
+      progress,
+      signal,
+      output && path.resolve(output)
+    );
+    this.clearProgress();
+    if (this.json) {
+      this.printJson({ status: "success", videoInfo, videoPath });
+    } else {
+      this.print(videoPath);
+    }
+    return EXIT_CODES.SUCCESS;
+  }
+
+  /**
+   * audio：本地视频文件直接提取，分享链接先下载（或流式下载）再提取
+   */
+  private async audio(
+    service: DouyinService,
+    args: ParsedArgs,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const input = this.requireInput(args);
+    const output = this.string(args, "output");
+    const audioPath = output && path.resolve(output);
+    const progress = this.progressReporter();
+
+    if (this.isFile(input)) {
+      const result = await service.extractAudio(
+        input,
+        progress,
+        signal,
+        audioPath
+      );
+      this.clearProgress();
+      if (this.json) {
+        this.printJson({ status: "success", audioPath: result });
+      } else {
+        this.print(result);
+      }
+      return EXIT_CODES.SUCCESS;
+    }
+
+    const videoInfo = await service.parseShareUrl(
+      input,
+      this.retries(args),
+      signal
+    );
+    if (videoInfo.contentType === "images") {
+      throw new AudioExtractionError(
+        "图集作品没有视频，背景音乐可用 download 命令下载",
+        { videoId: videoInfo.videoId }
+      );
+    }
+
+    const keepVideo = !!args.options["keep-video"];
+    let result: string;
+    let videoPath: string | undefined;
+    if (args.options.streaming) {
+      videoPath = keepVideo
+        ? path.join(this.downloadDir(args), `${videoInfo.videoId}.mp4`)
+        : undefined;
+      result = await service.streamAudio(
+        videoInfo,
+        progress,
+        signal,
+        audioPath,
+        videoPath
+      );
+    } else {
+      videoPath = await service.downloadVideo(videoInfo, progress, signal);
+      try {
+        result = await service.extractAudio(
+          videoPath,
+          progress,
+          signal,
+          audioPath
+        );
+      } finally {
+        if (!keepVideo) {
+          FileUtils.deleteFile(videoPath);
+          videoPath = undefined;
+        }
+      }
+    }
+    this.clearProgress();
+    if (this.json) {
+      this.printJson({
+        status: "success",
+        videoInfo,
+        audioPath: result,
+        videoPath,
+      });
+    } else {
+      this.print(result);
+    }
+    return EXIT_CODES.SUCCESS;
+  }
+
+  /**
+   * transcribe：分享链接走完整的提取流程，本地音频文件直接识别
+   */
+  private async transcribe(
+    service: DouyinService,
+    args: ParsedArgs,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const input = this.requireInput(args);
+    const options = this.extractOptions(args, signal);
+    const progress = this.progressReporter();
+    const result = this.isFile(input)
+      ? await this.transcribeFile(service, input, args, options, progress)
+      : await service.extractText(input, progress, options);
+    this.clearProgress();
+
+    const output = this.string(args, "output");
+    if (output) {
+      FileUtils.ensureDir(path.dirname(path.resolve(output)));
+      fs.writeFileSync(
+        output,
+        output.toLowerCase().endsWith(".json")
+          ? JSON.stringify(result, null, 2)
+          : result.extractedText,
+        "utf-8"
+      );
+    }
+
+    if (this.json) {
+      this.printJson({ status: "success", ...result });
+      return EXIT_CODES.SUCCESS;
+    }
+
+    this.print(result.extractedText);
+    if (result.analysis) {
+      this.print(`\n摘要: ${result.analysis.summary}`);
+      if (result.analysis.keywords.length > 0) {
+        this.print(`关键词: ${result.analysis.keywords.join("、")}`);
+      }
+    }
+    if (result.translation) {
+      this.print(`\n译文 (${result.translation.targetLanguage}):`);
+      this.print(result.translation.text);
+    }
+    const files = [
+      output,
+      ...Object.values(result.subtitleFiles || {}),
+      ...Object.values(result.translation?.subtitleFiles || {}),
+      result.audioPath,
+      result.videoPath,
+    ].filter(Boolean);
+    if (files.length > 0) {
+      this.stderr.write(`已保存: ${files.join(", ")}\n`);
+    }
+    return EXIT_CODES.SUCCESS;
+  }
+
+  /**
+   * 识别本地音频文件，只在指定 --analyze / --translate-to 时分析和翻译
+   */
+  private async transcribeFile(
+    service: DouyinService,
+    audioPath: string,
+    args: ParsedArgs,
+    options: ExtractTextOptions,
+    progress?: (progress: ProcessingProgress) => void
+  ) {
+    const transcript = await service.postProcessTranscript(
+      await service.transcribeAudio(
+        audioPath,
+        progress,
+        options.signal,
+        undefined,
+        options.recognition
+      ),
+      options.postProcessors
+    );
+    const basePath = (this.string(args, "output") || audioPath).replace(
+      /\.[^./\\]+$/,
+      ""
+    );
+    const formats = options.subtitleFormats || [];
+    const segments = transcript.segments || [];
+    const subtitleFiles =
+      formats.length > 0 && segments.length > 0
+        ? SubtitleUtils.writeSubtitleFiles(segments, basePath, formats)
+        : undefined;
+
+    const analysis = args.options.analyze
+      ? await service.analyzeTranscript(transcript, progress, options.signal)
+      : undefined;
+    let translation;
+    if (options.translateTo) {
+      translation = await service.translateTranscript(
+        transcript,
+        options.translateTo,
+        progress,
+        options.signal
+      );
+      if (formats.length > 0 && translation.segments) {
+        translation.subtitleFiles = SubtitleUtils.writeSubtitleFiles(
+          options.translationSubtitles === "translated"
+            ? translation.segments
+            : SubtitleUtils.toBilingualSegments(segments, translation.segments),
+          `${basePath}.${options.translateTo}`,
+          formats
+        );
+      }
+    }
+
+    return {
+      audioPath,
+      extractedText: transcript.text,
+      segments: transcript.segments,
+      language: transcript.language,
+      subtitleFiles,
+      analysis,
+      translation,
+      videoPath: undefined as string | undefined,
+    };
+  }
+
+  /**
+   * batch：全部成功返回 0，全部失败返回首个错误对应的退出码，部分失败返回 10
+   */
+  private async batch(
+    service: DouyinService,
+    args: ParsedArgs,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const links = [...args.positionals];
+    const input = this.string(args, "input");
+    if (input) {
+      links.push(
+        ...fs
+          .readFileSync(input, "utf-8")
+          .split(/\r?\n/)
+          .map((line) => line.trim())
+          .filter((line) => line && !line.startsWith("#"))
+      );
+    }
+    if (links.length === 0) {
+      throw new CliUsageError("请提供分享链接或使用 -i 指定链接文件");
+    }
+
+    const outputDir = this.string(args, "output");
+    if (outputDir) {
+      FileUtils.ensureDir(outputDir);
+    }
+    const progress = this.progressReporter();
+    const results = await service.extractTextBatch(links, {
+      ...this.extractOptions(args, signal),
+      concurrency: this.number(args, "concurrency"),
+      delayMs: this.number(args, "delay"),
+      onItemProgress: progress && ((_index, item) => progress(item)),
+      onItemComplete: (item) => this.reportBatchItem(item, links.length),
+    });
+
+    const failed = results.filter((item) => item.status === "error");
+    if (outputDir) {
+      results.forEach((item) => {
+        if (item.status === "success" && item.videoInfo) {
+          fs.writeFileSync(
+            path.join(outputDir, `${item.videoInfo.videoId}.txt`),
+            item.extractedText || "",
+            "utf-8"
+          );
+        }
+      });
+      fs.writeFileSync(
+        path.join(outputDir, "results.json"),
+        JSON.stringify(results, null, 2),
+        "utf-8"
+      );
+    }
+
+    const summary = {
+      total: results.length,
+      succeeded: results.length - failed.length,
+      failed: failed.length,
+    };
+    if (this.json) {
+      this.printJson({
+        status: failed.length === 0 ? "success" : "error",
+        summary,
+        results,
+      });
+    } else {
+      this.stderr.write(
+        `完成: 成功 ${summary.succeeded}，失败 ${summary.failed}\n`
+      );
+    }
+
+    if (failed.length === 0) {
+      return EXIT_CODES.SUCCESS;
+    }
+    if (failed.length < results.length) {
+      return EXIT_CODES.PARTIAL_FAILURE;
+    }
+    const code = failed[0].error?.code;
+    return code ? exitCodeForErrorCode(code) : EXIT_CODES.FAILURE;
+  }
+
+  /**
+   * serve：启动 HTTP 服务，直到收到取消信号
+   */
+  private async serve(
+    service: DouyinService,
+    args: ParsedArgs,
+    logger: Logger,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const artifacts = this.string(args, "artifacts");
+    const server = new DouyinServer(service, {
+      port: this.number(args, "port") ?? Number(process.env.PORT || 3000),
+      host: this.string(args, "host") || process.env.HOST || "127.0.0.1",
+      authToken:
+        this.string(args, "token") || process.env.SERVER_AUTH_TOKEN || undefined,
+      artifactDir: artifacts && path.resolve(artifacts),
+      maxConcurrentJobs: this.number(args, "concurrency"),
+      logger,
+    });
+    const port = await server.start();
+    if (this.json) {
+      this.printJson({ status: "success", port });
+    } else {
+      this.stderr.write(`HTTP 服务已启动，端口 ${port}，按 Ctrl+C 停止\n`);
+    }
+
+    await new Promise<void>((resolve) => {
+      if (signal?.aborted) {
+        resolve();
+      }
+      signal?.addEventListener("abort", () => resolve(), { once: true });
+    });
+    await server.stop();
+    return EXIT_CODES.SUCCESS;
+  }
+
+  /**
+   * 按命令行选项创建服务，未指定的选项使用环境变量（见 createWithDefaultConfig）
+   */
+  private createService(
+    command: CliCommand,
+    args: ParsedArgs,
+    logger: Logger
+  ): DouyinService {
+    const apiKey = this.string(args, "api-key") || process.env.SPEECH_API_KEY;
+    if (command.speech && !apiKey) {
+      throw new CliUsageError(
+        "缺少语音识别 API 密钥，请使用 --api-key 或设置 SPEECH_API_KEY"
+      );
+    }
+
+    const overrides: Partial<Omit<DouyinServiceOptions, "speechApiKey">> = {
+      logger,
+    };
+    // 未指定的选项不能以 undefined 传入，否则会覆盖环境变量中的配置
+    const set = <K extends keyof typeof overrides>(
+      key: K,
+      value: (typeof overrides)[K] | undefined
+    ) => {
+      if (value !== undefined) {
+        overrides[key] = value;
+      }
+    };
+    set("speechApiBaseUrl", this.string(args, "api-base-url"));
+    set("speechModel", this.string(args, "model"));
+    set("downloadDir", this.string(args, "download-dir"));
+    set("tempDir", this.string(args, "temp-dir"));
+    set("maxFileSize", this.string(args, "max-file-size"));
+    set("maxDuration", this.number(args, "max-duration"));
+    set("audioProfile", this.audioProfile(args));
+    if (args.options["keep-temp"]) {
+      overrides.autoCleanTempFiles = false;
+    }
+    if (args.options.streaming) {
+      overrides.streaming = true;
+    }
+    if (args.options["hashtag-hotwords"]) {
+      overrides.hashtagHotwords = true;
+    }
+    const proxy = this.string(args, "proxy");
+    const cookiesFile = this.string(args, "cookies");
+    if (proxy || cookiesFile) {
+      overrides.http = {
+        proxy: proxy || process.env.PROXY_URL || undefined,
+        cookiesFile: cookiesFile || process.env.COOKIES_FILE || undefined,
+      };
+    }
+
+    // 构造服务需要识别器，parse、download、audio 不调用识别接口，用占位密钥即可
+    return DouyinService.createWithDefaultConfig(
+      apiKey || "unused",
+      overrides
+    );
+  }
+
+  /**
+   * 文本提取相关选项转换为 extractText 的调用选项
+   */
+  private extractOptions(
+    args: ParsedArgs,
+    signal?: AbortSignal
+  ): ExtractTextOptions {
+    const options: ExtractTextOptions = {
+      maxRetries: this.retries(args),
+      signal,
+    };
+
+    const recognition: RecognitionOptions = {};
+    const language = this.string(args, "language");
+    const prompt = this.string(args, "prompt");
+    const hotwords = this.list(args, "hotword");
+    if (language) recognition.language = language;
+    if (prompt) recognition.prompt = prompt;
+    if (hotwords.length > 0) recognition.hotwords = hotwords;
+    if (Object.keys(recognition).length > 0) {
+      options.recognition = recognition;
+    }
+
+    const subtitles = this.list(args, "subtitles");
+    const invalid = subtitles.find((f) => f !== "srt" && f !== "vtt");
+    if (invalid) {
+      throw new CliUsageError(`不支持的字幕格式: ${invalid}`);
+    }
+    if (subtitles.length > 0) {
+      options.subtitleFormats = subtitles as SubtitleFormat[];
+    }
+
+    const cache = this.string(args, "cache");
+    if (cache) {
+      if (!["use", "bypass", "refresh"].includes(cache)) {
+        throw new CliUsageError(`无效的缓存模式: ${cache}`);
+      }
+      options.cache = cache as TranscriptCacheMode;
+    }
+
+    if (args.options.analyze && args.options["no-analyze"]) {
+      throw new CliUsageError("--analyze 和 --no-analyze 不能同时使用");
+    }
+    if (args.options.analyze) options.analyze = true;
+    if (args.options["no-analyze"]) options.analyze = false;
+    if (args.options["keep-audio"]) options.keepAudio = true;
+    if (args.options["keep-video"]) options.keepVideo = true;
+
+    const translateTo = this.string(args, "translate-to");
+    if (translateTo !== undefined) {
+      if (translateTo.trim() && !isLanguageTag(translateTo.trim())) {
+        throw new CliUsageError(`无效的目标语言: ${translateTo}`);
+      }
+      options.translateTo = translateTo;
+    }
+    const mode = this.string(args, "translation-subtitles");
+    if (mode) {
+      if (mode !== "bilingual" && mode !== "translated") {
+        throw new CliUsageError(`无效的翻译字幕模式: ${mode}`);
+      }
+      options.translationSubtitles = mode as TranslationSubtitleMode;
+    }
+    return options;
+  }
+
+  /**
+   * 日志写到 stderr，默认只输出警告，LOG_LEVEL 可覆盖默认级别
+   */
+  private createLogger(args: ParsedArgs): Logger {
+    const verbose = !!(args.options.debug || args.options.verbose);
+    const level = args.options.debug
+      ? "debug"
+      : args.options.verbose
+        ? "info"
+        : process.env.LOG_LEVEL || "warn";
+    // 失败原因由命令行统一输出，默认不重复输出服务的错误日志
+    const skipErrors = winston.format((info) =>
+      !verbose && info.level === "error" ? false : info
+    );
+    return winston.createLogger({
+      level,
+      format: winston.format.combine(
+        skipErrors(),
+        winston.format.timestamp({ format: "YYYY-MM-DD HH:mm:ss" }),
+        winston.format.errors({ stack: true })
+      ),
+      transports: [
+        new winston.transports.Console({
+          stderrLevels: ["error", "warn", "info", "debug"],
+          format: winston.format.combine(
+            winston.format.colorize(),
+            winston.format.simple()
+          ),
+        }),
+      ],
+    });
+  }
+
+  /**
+   * 进度写到 stderr：终端中原地刷新，否则每个阶段输出一行，--json 时不输出
+   */
+  private progressReporter():
+    | ((progress: ProcessingProgress) => void)
+    | undefined {
+    if (this.json) {
+      return undefined;
+    }
+    const tty = !!(this.stderr as NodeJS.WriteStream).isTTY;
+    let lastStage: string | undefined;
+    return (progress) => {
+      const percent = Math.round(progress.overallProgress ?? progress.progress);
+      if (tty) {
+        this.stderr.write(`\r\x1b[K[${percent}%] ${progress.message}`);
+        this.progressVisible = true;
+      } else if (progress.stage !== lastStage) {
+        this.stderr.write(`[${percent}%] ${progress.message}\n`);
+      }
+      lastStage = progress.stage;
+    };
+  }
+
+  private clearProgress(): void {
+    if (this.progressVisible) {
+      this.stderr.write("\r\x1b[K");
+      this.progressVisible = false;
+    }
+  }
+
+  private reportBatchItem(item: BatchItemResult, total: number): void {
+    if (this.json) {
+      return;
+    }
+    this.clearProgress();
+    const position = `[${item.index + 1}/${total}]`;
+    if (item.status === "success") {
+      const { videoId, title } = item.videoInfo || {};
+      this.stderr.write(`✅ ${position} ${videoId} ${title || ""}\n`);
+    } else {
+      const { message, code } = item.error || {};
+      this.stderr.write(`❌ ${position} ${item.input}: ${message} (${code})\n`);
+    }
+  }
+
+  private reportError(error: unknown, command: string): void {
+    const message = error instanceof Error ? error.message : String(error);
+    if (this.json) {
+      this.printJson({
+        status: "error",
+        error:
+          error instanceof DouyinError
+            ? error.toJSON()
+            : {
+                name: error instanceof Error ? error.name : "Error",
+                code: error instanceof CliUsageError ? "USAGE" : "UNKNOWN",
+                message,
+              },
+      });
+      return;
+    }
+    const code = error instanceof DouyinError ? ` (${error.code})` : "";
+    this.stderr.write(`❌ ${message}${code}\n`);
+    if (error instanceof CliUsageError) {
+      const topic = COMMANDS[command] ? ` ${command}` : "";
+      this.stderr.write(`使用 douyin help${topic} 查看帮助\n`);
+    }
+  }
+
+  private describe(info: DouyinVideoInfo): string {
+    const lines = [
+      `视频ID: ${info.videoId}`,
+      `类型: ${info.contentType === "images" ? "图集" : "视频"}`,
+      `标题: ${info.title}`,
+    ];
+    if (info.author?.nickname) lines.push(`作者: ${info.author.nickname}`);
+    if (info.duration) lines.push(`时长: ${info.duration} 秒`);
+    if (info.hashtags?.length) lines.push(`话题: #${info.hashtags.join(" #")}`);
+    if (info.contentType === "images") {
+      lines.push(`图片: ${info.images?.length || 0} 张`);
+    }
+    if (info.downloadUrl) lines.push(`下载地址: ${info.downloadUrl}`);
+    return lines.join("\n");
+  }
+
+  private help(): string {
+    const width = Math.max(...Object.keys(COMMANDS).map((n) => n.length)) + 2;
+    const commands = Object.entries(COMMANDS)
+      .map(([name, command]) => `  ${name.padEnd(width)}${command.summary}`)
+      .join("\n");
+    return [
+      "抖音视频文本提取工具",
+      "",
+      "用法: douyin <命令> [参数] [选项]",
+      "",
+      "命令:",
+      commands,
+      "",
+      "通用选项:",
+      formatOptions(GLOBAL_OPTIONS),
+      "",
+      "使用 douyin help <命令> 查看命令的选项。配置读取环境变量和当前目录的 .env",
+      "",
+      "退出码: 0 成功，1 未知错误，2 参数错误，3 链接无效，4 需要登录，",
+      "5 网络或下载失败，6 音频提取失败，7 语音识别失败，8 超出限制，",
+      "9 内容分析或翻译失败，10 批量处理部分失败，130 被中断",
+    ].join("\n");
+  }
+
+  private commandHelp(name: string): string {
+    const command = COMMANDS[name];
+    return [
+      command.summary,
+      "",
+      `用法: ${command.usage}`,
+      "",
+      "选项:",
+      formatOptions({ ...command.options, ...GLOBAL_OPTIONS }),
+    ].join("\n");
+  }
+
+  private requireInput(args: ParsedArgs): string {
+    if (args.positionals.length === 0) {
+      throw new CliUsageError("请提供分享链接或文件路径");
+    }
+    // 分享文本含空格时可以不加引号
+    return args.positionals.join(" ");
+  }
+
+  private string(args: ParsedArgs, name: string): string | undefined {
+    const value = args.options[name];
+    return typeof value === "string" ? value : undefined;
+  }
+
+  private list(args: ParsedArgs, name: string): string[] {
+    const value = args.options[name];
+    return Array.isArray(value) ? value : [];
+  }
+
+  private number(args: ParsedArgs, name: string): number | undefined {
+    const value = this.string(args, name);
+    if (value === undefined) {
+      return undefined;
+    }
+    const number = Number(value);
+    if (!value.trim() || !Number.isFinite(number) || number < 0) {
+      throw new CliUsageError(`选项 --${name} 需要非负数字: ${value}`);
+    }
+    return number;
+  }
+
+  private retries(args: ParsedArgs): number {
+    return Math.max(1, Math.floor(this.number(args, "retries") ?? 3));
+  }
+
+  private audioProfile(args: ParsedArgs): AudioProfileName | undefined {
+    const profile = this.string(args, "audio-profile");
+    if (profile && !(profile in AUDIO_PROFILES)) {
+      throw new CliUsageError(`未知的音频配置: ${profile}`);
+    }
+    return profile as AudioProfileName | undefined;
+  }
+
+  private downloadDir(args: ParsedArgs): string {
+    return (
+      this.string(args, "download-dir") ||
+      process.env.DOWNLOAD_DIR ||
+      path.join(process.cwd(), "downloads")
+    );
+  }
+
+  private isFile(input: string): boolean {
+    return fs.existsSync(input) && fs.statSync(input).isFile();
+  }
+
+  private isDirectory(input: string): boolean {
+    return (
+      /[/\\]$/.test(input) ||
+      (fs.existsSync(input) && fs.statSync(input).isDirectory())
+    );
+  }
+
+  private print(text: string): void {
+    this.stdout.write(`${text}\n`);
+  }
+
+  private printJson(value: unknown): void {
+    this.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * 命令行选项定义：flag 不带值，string 带一个值，
+ * list 可重复出现或用逗号分隔多个值
+ */
+export interface CliOptionSpec {
+  type: "flag" | "string" | "list";
+  /** 单字母短选项，如 o 对应 -o */
+  short?: string;
+  /** 帮助中显示的值名称 */
+  valueName?: string;
+  description: string;
+}
+
+/**
+ * 选项定义表，键为长选项名（不含 --）
+ */
+export type CliOptionSpecs = Record<string, CliOptionSpec>;
+
+export interface ParsedArgs {
+  /** 位置参数 */
+  positionals: string[];
+  /** 出现过的选项，键为长选项名 */
+  options: Record<string, string | string[] | true>;
+}
+
+/**
+ * 命令行参数错误，退出码为 2
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+/**
+ * 按选项定义解析参数，支持 --name value、--name=value、-n value，
+ * `--` 之后的参数都作为位置参数
+ */
+export function parseArgs(argv: string[], specs: CliOptionSpecs): ParsedArgs {
+  const shortNames = new Map<string, string>();
+  Object.entries(specs).forEach(([name, spec]) => {
+    if (spec.short) {
+      shortNames.set(spec.short, name);
+    }
+  });
+
+  const positionals: string[] = [];
+  const options: ParsedArgs["options"] = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--") {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("-") || arg === "-") {
+      positionals.push(arg);
+      continue;
+    }
+
+    let name: string | undefined;
+    let inlineValue: string | undefined;
+    if (arg.startsWith("--")) {
+      const eq = arg.indexOf("=");
+      name = eq > 0 ? arg.slice(2, eq) : arg.slice(2);
+      inlineValue = eq > 0 ? arg.slice(eq + 1) : undefined;
+    } else {
+      name = arg.length === 2 ? shortNames.get(arg[1]) : undefined;
+    }
+    const spec = name ? specs[name] : undefined;
+    if (!name || !spec) {
+      throw new CliUsageError(`未知选项: ${arg}`);
+    }
+
+    if (spec.type === "flag") {
+      if (inlineValue !== undefined) {
+        throw new CliUsageError(`选项 --${name} 不接受值`);
+      }
+      options[name] = true;
+      continue;
+    }
+
+    let value = inlineValue;
+    if (value === undefined) {
+      if (i + 1 >= argv.length) {
+        throw new CliUsageError(`选项 --${name} 需要指定值`);
+      }
+      value = argv[++i];
+    }
+    if (spec.type === "list") {
+      const previous = options[name];
+      options[name] = [
+        ...(Array.isArray(previous) ? previous : []),
+        ...value
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean),
+      ];
+    } else {
+      options[name] = value;
+    }
+  }
+
+  return { positionals, options };
+}
+
+/**
+ * 生成选项的帮助文本，每个选项一行
+ */
+export function formatOptions(specs: CliOptionSpecs): string {
+  const rows = Object.entries(specs).map(([name, spec]) => {
+    const flags =
+      (spec.short ? `-${spec.short}, ` : "    ") +
+      `--${name}` +
+      (spec.type === "flag" ? "" : ` <${spec.valueName || "值"}>`);
+    return { flags, description: spec.description };
+  });
+  const width = Math.max(...rows.map((row) => displayWidth(row.flags))) + 2;
+  return rows
+    .map((row) => {
+      const padding = " ".repeat(width - displayWidth(row.flags));
+      return `  ${row.flags}${padding}${row.description}`;
+    })
+    .join("\n");
+}
+
+/**
+ * 终端中的显示宽度，中文等全角字符占两列
+ */
+function displayWidth(text: string): number {
+  return [...text].reduce(
+    (width, char) => width + (/[\u1100-\uffef]/.test(char) ? 2 : 1),
+    0
+  );
+}
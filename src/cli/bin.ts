@@ -0,0 +1,28 @@
+#!/usr/bin/env node
+import dotenv from "dotenv";
+import { DouyinCli } from "./DouyinCli";
+import { EXIT_CODES } from "./exitCodes";
+
+dotenv.config();
+
+// 第一次 Ctrl+C 取消当前命令并清理临时文件，再次按下时立即退出
+const controller = new AbortController();
+const interrupt = () => {
+  if (controller.signal.aborted) {
+    process.exit(EXIT_CODES.CANCELLED);
+  }
+  controller.abort();
+};
+process.on("SIGINT", interrupt);
+process.on("SIGTERM", interrupt);
+
+new DouyinCli()
+  .run(process.argv.slice(2), controller.signal)
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    // run 已处理命令中的错误，到这里的是输出结果等环节的意外异常
+    console.error(error);
+    process.exit(EXIT_CODES.FAILURE);
+  });
@@ -0,0 +1,28 @@
+import { EXIT_CODES, exitCodeFor } from "./exitCodes";
+import { CliUsageError } from "./args";
+import {
+  CancelledError,
+  InvalidOptionsError,
+  LoginRequiredError,
+} from "../errors";
+
+describe("exitCodeFor", () => {
+  it("参数错误和未配置的功能返回 USAGE", () => {
+    expect(exitCodeFor(new CliUsageError("缺少分享链接"))).toBe(
+      EXIT_CODES.USAGE
+    );
+    expect(
+      exitCodeFor(new InvalidOptionsError("未配置内容分析器", "analysis"))
+    ).toBe(EXIT_CODES.USAGE);
+  });
+
+  it("按错误码区分退出码", () => {
+    expect(exitCodeFor(new LoginRequiredError("需要登录"))).toBe(
+      EXIT_CODES.LOGIN_REQUIRED
+    );
+    expect(exitCodeFor(new CancelledError("downloading"))).toBe(
+      EXIT_CODES.CANCELLED
+    );
+    expect(exitCodeFor(new Error("意外错误"))).toBe(EXIT_CODES.FAILURE);
+  });
+});
@@ -0,0 +1,78 @@
+import { DouyinErrorCode } from "../types";
+import { DouyinError } from "../errors";
+import { CliUsageError } from "./args";
+
+/**
+ * 命令行工具的退出码，按错误类型区分，便于脚本判断是否重试
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  /** 未归类的错误 */
+  FAILURE: 1,
+  /** 参数错误或配置不完整 */
+  USAGE: 2,
+  /** 分享链接无效或无法解析页面数据 */
+  INVALID_LINK: 3,
+  /** 页面要求登录或验证 */
+  LOGIN_REQUIRED: 4,
+  /** 网络请求或下载失败 */
+  NETWORK: 5,
+  /** 音频提取失败 */
+  AUDIO_EXTRACTION: 6,
+  /** 语音识别失败 */
+  SPEECH_RECOGNITION: 7,
+  /** 文件大小或时长超出限制 */
+  LIMIT_EXCEEDED: 8,
+  /** 内容分析或翻译失败 */
+  LANGUAGE_MODEL: 9,
+  /** 批量处理中部分条目失败 */
+  PARTIAL_FAILURE: 10,
+  /** 被中断（Ctrl+C） */
+  CANCELLED: 130,
+} as const;
+
+/**
+ * 错误码对应的退出码
+ */
+export function exitCodeForErrorCode(code: DouyinErrorCode): number {
+  switch (code) {
+    case "INVALID_OPTIONS":
+      return EXIT_CODES.USAGE;
+    case "SHARE_LINK_NOT_FOUND":
+    case "PAGE_DATA_PARSE_FAILED":
+      return EXIT_CODES.INVALID_LINK;
+    case "LOGIN_REQUIRED":
+      return EXIT_CODES.LOGIN_REQUIRED;
+    case "NETWORK_ERROR":
+    case "DOWNLOAD_FAILED":
+      return EXIT_CODES.NETWORK;
+    case "AUDIO_EXTRACTION_FAILED":
+      return EXIT_CODES.AUDIO_EXTRACTION;
+    case "SPEECH_RECOGNITION_FAILED":
+    case "SPEECH_API_FAILED":
+      return EXIT_CODES.SPEECH_RECOGNITION;
+    case "LIMIT_EXCEEDED":
+      return EXIT_CODES.LIMIT_EXCEEDED;
+    case "CHAT_API_FAILED":
+    case "ANALYSIS_FAILED":
+    case "TRANSLATION_FAILED":
+      return EXIT_CODES.LANGUAGE_MODEL;
+    case "CANCELLED":
+      return EXIT_CODES.CANCELLED;
+    default:
+      return EXIT_CODES.FAILURE;
+  }
+}
+
+/**
+ * 任意错误对应的退出码
+ */
+export function exitCodeFor(error: unknown): number {
+  if (error instanceof CliUsageError) {
+    return EXIT_CODES.USAGE;
+  }
+  if (error instanceof DouyinError) {
+    return exitCodeForErrorCode(error.code);
+  }
+  return EXIT_CODES.FAILURE;
+}
@@ -0,0 +1,10 @@
+export { DouyinCli, DouyinCliOptions } from "./DouyinCli";
+export {
+  CliOptionSpec,
+  CliOptionSpecs,
+  CliUsageError,
+  ParsedArgs,
+  formatOptions,
+  parseArgs,
+} from "./args";
+export { EXIT_CODES, exitCodeFor, exitCodeForErrorCode } from "./exitCodes";
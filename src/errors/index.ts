@@ -0,0 +1,280 @@
+import {
+  DouyinErrorCode,
+  DouyinErrorInfo,
+  LimitType,
+  ProcessingStage,
+} from "../types";
+import { FileUtils } from "../utils/fileUtils";
+
+/**
+ * 错误构造选项
+ */
+export interface DouyinErrorOptions {
+  videoId?: string;
+  /** HTTP 状态码 */
+  status?: number;
+  /** 原始错误 */
+  cause?: unknown;
+}
+
+/**
+ * 所有错误的基类，携带稳定的错误码、出错阶段和原始错误
+ */
+export class DouyinError extends Error {
+  readonly code: DouyinErrorCode;
+  readonly stage: ProcessingStage;
+  videoId?: string;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(
+    code: DouyinErrorCode,
+    stage: ProcessingStage,
+    message: string,
+    options: DouyinErrorOptions = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.stage = stage;
+    this.videoId = options.videoId;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+
+  /**
+   * 转换为可序列化的结构化错误信息
+   */
+  toJSON(): DouyinErrorInfo {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      stage: this.stage,
+      videoId: this.videoId,
+      status: this.status,
+      cause: this.cause instanceof Error ? this.cause.message : undefined,
+    };
+  }
+
+  /**
+   * 将任意错误转换为 DouyinError，已是 DouyinError 时补充 videoId 后原样返回
+   */
+  static from(
+    error: unknown,
+    stage: ProcessingStage,
+    videoId?: string
+  ): DouyinError {
+    if (error instanceof DouyinError) {
+      if (!error.videoId && videoId) {
+        error.videoId = videoId;
+      }
+      return error;
+    }
+
+    const message = error instanceof Error ? error.message : "未知错误";
+    return new DouyinError("UNKNOWN", stage, message, {
+      videoId,
+      cause: error,
+    });
+  }
+}
+
+/**
+ * 分享文本中未找到有效链接
+ */
+export class ShareLinkNotFoundError extends DouyinError {
+  constructor(
+    message: string = "未找到有效的分享链接",
+    options?: DouyinErrorOptions
+  ) {
+    super("SHARE_LINK_NOT_FOUND", "parsing", message, options);
+  }
+}
+
+/**
+ * 页面要求登录或验证码
+ */
+export class LoginRequiredError extends DouyinError {
+  constructor(
+    message: string = "页面要求登录或验证",
+    options?: DouyinErrorOptions
+  ) {
+    super("LOGIN_REQUIRED", "parsing", message, options);
+  }
+}
+
+/**
+ * 无法从页面中解析出视频数据
+ */
+export class PageDataParseError extends DouyinError {
+  constructor(message: string, options?: DouyinErrorOptions) {
+    super("PAGE_DATA_PARSE_FAILED", "parsing", message, options);
+  }
+}
+
+/**
+ * 请求抖音页面时的网络错误
+ */
+export class NetworkError extends DouyinError {
+  constructor(message: string, options?: DouyinErrorOptions) {
+    super("NETWORK_ERROR", "parsing", message, options);
+  }
+}
+
+/**
+ * 视频下载失败
+ */
+export class DownloadError extends DouyinError {
+  constructor(message: string, options?: DouyinErrorOptions) {
+    super("DOWNLOAD_FAILED", "downloading", message, options);
+  }
+}
+
+/**
+ * 音频提取失败
+ */
+export class AudioExtractionError extends DouyinError {
+  constructor(message: string, options?: DouyinErrorOptions) {
+    super("AUDIO_EXTRACTION_FAILED", "extracting_audio", message, options);
+  }
+}
+
+/**
+ * 语音识别失败（如本地识别程序异常）
+ */
+export class SpeechRecognitionError extends DouyinError {
+  constructor(
+    message: string,
+    options?: DouyinErrorOptions,
+    code: DouyinErrorCode = "SPEECH_RECOGNITION_FAILED"
+  ) {
+    super(code, "speech_recognition", message, options);
+  }
+}
+
+/**
+ * 语音识别 API 请求失败，status 为 HTTP 状态码
+ */
+export class SpeechApiError extends SpeechRecognitionError {
+  /** 识别提供方名称 */
+  readonly provider?: string;
+
+  constructor(
+    message: string,
+    options: DouyinErrorOptions & { provider?: string } = {}
+  ) {
+    super(message, options, "SPEECH_API_FAILED");
+    this.provider = options.provider;
+  }
+}
+
+/**
+ * 对话补全 API 请求失败，stage 为发起请求的阶段，status 为 HTTP 状态码
+ */
+export class ChatApiError extends DouyinError {
+  /** 提供方名称 */
+  readonly provider?: string;
+
+  constructor(
+    message: string,
+    stage: ProcessingStage = "analysis",
+    options: DouyinErrorOptions & { provider?: string } = {}
+  ) {
+    super("CHAT_API_FAILED", stage, message, options);
+    this.provider = options.provider;
+  }
+}
+
+/**
+ * 内容分析失败（如模型输出无法解析）
+ */
+export class AnalysisError extends DouyinError {
+  constructor(message: string, options?: DouyinErrorOptions) {
+    super("ANALYSIS_FAILED", "analysis", message, options);
+  }
+}
+
+/**
+ * 翻译失败（如模型返回的译文条数与原文不一致）
+ */
+export class TranslationError extends DouyinError {
+  constructor(message: string, options?: DouyinErrorOptions) {
+    super("TRANSLATION_FAILED", "translation", message, options);
+  }
+}
+
+/**
+ * 操作被 AbortSignal 取消，stage 为取消时所处的阶段
+ */
+export class CancelledError extends DouyinError {
+  constructor(
+    stage: ProcessingStage = "parsing",
+    message: string = "操作已取消",
+    options?: DouyinErrorOptions
+  ) {
+    super("CANCELLED", stage, message, options);
+  }
+}
+
+/**
+ * 回放模式下录制数据中没有匹配的请求或识别结果
+ */
+export class FixtureNotFoundError extends DouyinError {
+  constructor(
+    message: string,
+    stage: ProcessingStage = "parsing",
+    options?: DouyinErrorOptions
+  ) {
+    super("FIXTURE_NOT_FOUND", stage, message, options);
+  }
+}
+
+/**
+ * 调用选项无效，或选项需要的功能未配置（如未配置 translator 时指定 translateTo）
+ */
+export class InvalidOptionsError extends DouyinError {
+  constructor(
+    message: string,
+    stage: ProcessingStage = "parsing",
+    options?: DouyinErrorOptions
+  ) {
+    super("INVALID_OPTIONS", stage, message, options);
+  }
+}
+
+/**
+ * 文件大小或媒体时长超出配置的上限
+ */
+export class LimitExceededError extends DouyinError {
+  readonly limitType: LimitType;
+  readonly max: number;
+  readonly actual: number;
+
+  constructor(
+    limitType: LimitType,
+    actual: number,
+    max: number,
+    stage: ProcessingStage,
+    options?: DouyinErrorOptions
+  ) {
+    super(
+      "LIMIT_EXCEEDED",
+      stage,
+      limitType === "fileSize"
+        ? `文件大小 ${FileUtils.formatFileSize(actual)} 超过上限 ${FileUtils.formatFileSize(max)}`
+        : `媒体时长 ${Math.round(actual)} 秒超过上限 ${max} 秒`,
+      options
+    );
+    this.limitType = limitType;
+    this.max = max;
+    this.actual = actual;
+  }
+
+  toJSON(): DouyinErrorInfo {
+    return {
+      ...super.toJSON(),
+      limit: { type: this.limitType, max: this.max, actual: this.actual },
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  ExtractionEventPayload,
+  ProcessingProgress,
+  ProcessingStage,
+  StageWeights,
+} from "../types";
+
+/**
+ * 默认的阶段权重，大致对应各阶段的典型耗时占比
+ */
+export const DEFAULT_STAGE_WEIGHTS: Required<StageWeights> = {
+  parsing: 5,
+  downloading: 40,
+  extracting_audio: 15,
+  speech_recognition: 35,
+  analysis: 10,
+  translation: 10,
+  cleaning: 5,
+  completed: 0,
+};
+
+/** 参与整体进度计算的阶段，按处理顺序排列 */
+const STAGE_ORDER: ProcessingStage[] = [
+  "parsing",
+  "downloading",
+  "extracting_audio",
+  "speech_recognition",
+  "analysis",
+  "translation",
+  "cleaning",
+];
+
+/**
+ * 跟踪单次处理的阶段变化：根据阶段进度计算整体进度，
+ * 并在阶段切换时发出 stage_start / stage_end 事件。
+ * 跳过的阶段（如命中缓存、图集作品）按已完成计算，整体进度只增不减
+ */
+export class ProgressTracker {
+  private readonly emit: (event: ExtractionEventPayload) => void;
+  private readonly weights: Required<StageWeights>;
+  private readonly totalWeight: number;
+  private stage?: ProcessingStage;
+  private stageStartedAt = 0;
+  private overall = 0;
+
+  constructor(
+    emit: (event: ExtractionEventPayload) => void,
+    weights: StageWeights = {}
+  ) {
+    this.emit = emit;
+    this.weights = { ...DEFAULT_STAGE_WEIGHTS, ...weights };
+    this.totalWeight = STAGE_ORDER.reduce(
+      (total, stage) => total + Math.max(0, this.weights[stage]),
+      0
+    );
+  }
+
+  /**
+   * 当前的整体进度 0-100
+   */
+  getOverallProgress(): number {
+    return this.overall;
+  }
+
+  /**
+   * 记录一次阶段进度，返回附加了整体进度的进度信息
+   */
+  update(progress: ProcessingProgress): ProcessingProgress {
+    this.enter(progress.stage);
+    this.overall = Math.max(
+      this.overall,
+      this.computeOverall(progress.stage, progress.progress)
+    );
+
+    this.emit({
+      type: "progress",
+      stage: progress.stage,
+      progress: progress.progress,
+      overallProgress: this.overall,
+      message: progress.message,
+    });
+    return { ...progress, overallProgress: this.overall };
+  }
+
+  /**
+   * 处理失败或取消时结束当前阶段
+   */
+  fail(status: "failed" | "cancelled"): void {
+    this.endStage(status);
+  }
+
+  private enter(stage: ProcessingStage): void {
+    if (stage === this.stage) {
+      return;
+    }
+    this.endStage("completed");
+    if (stage !== "completed") {
+      this.stage = stage;
+      this.stageStartedAt = Date.now();
+      this.emit({ type: "stage_start", stage });
+    }
+  }
+
+  private endStage(status: "completed" | "failed" | "cancelled"): void {
+    if (!this.stage) {
+      return;
+    }
+    this.emit({
+      type: "stage_end",
+      stage: this.stage,
+      duration: Date.now() - this.stageStartedAt,
+      status,
+    });
+    this.stage = undefined;
+  }
+
+  private computeOverall(stage: ProcessingStage, progress: number): number {
+    const index = STAGE_ORDER.indexOf(stage);
+    if (index < 0 || this.totalWeight === 0) {
+      return stage === "completed" ? 100 : this.overall;
+    }
+
+    const finished = STAGE_ORDER.slice(0, index).reduce(
+      (total, item) => total + Math.max(0, this.weights[item]),
+      0
+    );
+    const clamped = Math.min(100, Math.max(0, progress));
+    const current = (Math.max(0, this.weights[stage]) * clamped) / 100;
+    return Math.round(((finished + current) / this.totalWeight) * 100);
+  }
+}
@@ -0,0 +1,51 @@
+import { EventEmitter } from "events";
+
+/**
+ * 带类型的事件发射器：Events 为事件名到事件参数的映射
+ */
+export class TypedEventEmitter<Events extends object> {
+  private readonly emitter = new EventEmitter();
+
+  on<K extends keyof Events & string>(
+    event: K,
+    listener: (payload: Events[K]) => void
+  ): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  once<K extends keyof Events & string>(
+    event: K,
+    listener: (payload: Events[K]) => void
+  ): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  off<K extends keyof Events & string>(
+    event: K,
+    listener: (payload: Events[K]) => void
+  ): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  /**
+   * 移除指定事件（不传时为全部事件）的监听器
+   */
+  removeAllListeners<K extends keyof Events & string>(event?: K): this {
+    this.emitter.removeAllListeners(event);
+    return this;
+  }
+
+  listenerCount<K extends keyof Events & string>(event: K): number {
+    return this.emitter.listenerCount(event);
+  }
+
+  protected emit<K extends keyof Events & string>(
+    event: K,
+    payload: Events[K]
+  ): boolean {
+    return this.emitter.emit(event, payload);
+  }
+}
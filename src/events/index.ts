@@ -0,0 +1,2 @@
+export { TypedEventEmitter } from "./TypedEventEmitter";
+export { ProgressTracker, DEFAULT_STAGE_WEIGHTS } from "./ProgressTracker";
@@ -0,0 +1,86 @@
+import {
+  DouyinVideoInfo,
+  Logger,
+  PageDataContext,
+  PageDataExtractor,
+} from "../types";
+import { builtinPageDataExtractors } from "./builtinExtractors";
+import defaultLogger from "../utils/logger";
+
+/**
+ * 页面数据提取策略注册表，按顺序尝试，第一个返回结果的策略胜出
+ */
+export class PageDataExtractorRegistry {
+  private extractors: PageDataExtractor[];
+  private readonly logger: Logger;
+
+  /**
+   * @param extractors 初始策略，默认为内置策略
+   */
+  constructor(
+    extractors: PageDataExtractor[] = builtinPageDataExtractors,
+    logger: Logger = defaultLogger
+  ) {
+    this.extractors = [...extractors];
+    this.logger = logger;
+  }
+
+  /**
+   * 注册策略，同名策略会被替换
+   * @param prepend 是否放在最前面优先尝试，默认: true
+   */
+  register(extractor: PageDataExtractor, prepend: boolean = true): void {
+    this.unregister(extractor.name);
+    if (prepend) {
+      this.extractors.unshift(extractor);
+    } else {
+      this.extractors.push(extractor);
+    }
+  }
+
+  /**
+   * 移除指定名称的策略
+   */
+  unregister(name: string): boolean {
+    const before = this.extractors.length;
+    this.extractors = this.extractors.filter((item) => item.name !== name);
+    return this.extractors.length !== before;
+  }
+
+  /**
+   * 当前的策略名称，按尝试顺序排列
+   */
+  list(): string[] {
+    return this.extractors.map((extractor) => extractor.name);
+  }
+
+  /**
+   * 依次尝试各策略，全部失败时返回 null；
+   * 单个策略抛出的异常只记录日志，不会中断后续策略
+   */
+  extract(html: string, context: PageDataContext): DouyinVideoInfo | null {
+    for (const extractor of this.extractors) {
+      try {
+        const videoInfo = extractor.extract(html, context);
+        if (videoInfo) {
+          this.logger.debug("页面数据提取成功", {
+            extractor: extractor.name,
+            videoId: context.videoId,
+          });
+          return {
+            ...videoInfo,
+            extractor: videoInfo.extractor || extractor.name,
+          };
+        }
+      } catch (error) {
+        this.logger.debug("页面数据提取策略失败", {
+          extractor: extractor.name,
+          videoId: context.videoId,
+          error: error instanceof Error ? error.message : "未知错误",
+        });
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,85 @@
+import { DouyinVideoInfo, PageDataContext, PageDataExtractor } from "../types";
+import {
+  extractAssignedObject,
+  findAwemeItem,
+  normalizeAwemeItem,
+  parseJsonLoose,
+  sliceBalancedObject,
+} from "./pageDataUtils";
+
+const VIDEO_ID_PAGE_KEY = "video_(id)/page";
+const NOTE_ID_PAGE_KEY = "note_(id)/page";
+
+/**
+ * window._ROUTER_DATA 中 loaderData 的视频/图集页面数据
+ */
+export const routerDataExtractor: PageDataExtractor = {
+  name: "router-data",
+  extract(html: string, context: PageDataContext): DouyinVideoInfo | null {
+    const routerData = extractAssignedObject(html, "_ROUTER_DATA");
+    const loaderData = routerData?.loaderData;
+    if (!loaderData) {
+      return null;
+    }
+
+    const pageData =
+      loaderData[VIDEO_ID_PAGE_KEY] || loaderData[NOTE_ID_PAGE_KEY];
+    const item = pageData?.videoInfoRes?.item_list?.[0];
+    return item ? normalizeAwemeItem(item, context, this.name) : null;
+  },
+};
+
+/**
+ * window.__INITIAL_STATE__ 中的作品数据
+ */
+export const initialStateExtractor: PageDataExtractor = {
+  name: "initial-state",
+  extract(html: string, context: PageDataContext): DouyinVideoInfo | null {
+    const item = findAwemeItem(
+      extractAssignedObject(html, "__INITIAL_STATE__")
+    );
+    return item ? normalizeAwemeItem(item, context, this.name) : null;
+  },
+};
+
+/**
+ * window.__NUXT__ 中的作品数据（仅支持 JSON 形式，不支持函数包装的形式）
+ */
+export const nuxtExtractor: PageDataExtractor = {
+  name: "nuxt",
+  extract(html: string, context: PageDataContext): DouyinVideoInfo | null {
+    const item = findAwemeItem(extractAssignedObject(html, "__NUXT__"));
+    return item ? normalizeAwemeItem(item, context, this.name) : null;
+  },
+};
+
+/**
+ * 页面中任意位置内联的 "videoInfoRes": {...}
+ */
+export const videoInfoResExtractor: PageDataExtractor = {
+  name: "video-info-res",
+  extract(html: string, context: PageDataContext): DouyinVideoInfo | null {
+    const match = /"videoInfoRes"\s*:\s*/.exec(html);
+    if (!match) {
+      return null;
+    }
+
+    const objectText = sliceBalancedObject(html, match.index + match[0].length);
+    if (!objectText) {
+      return null;
+    }
+
+    const item = findAwemeItem(parseJsonLoose(objectText));
+    return item ? normalizeAwemeItem(item, context, this.name) : null;
+  },
+};
+
+/**
+ * 内置策略，按尝试顺序排列
+ */
+export const builtinPageDataExtractors: PageDataExtractor[] = [
+  routerDataExtractor,
+  initialStateExtractor,
+  nuxtExtractor,
+  videoInfoResExtractor,
+];
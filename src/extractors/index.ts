@@ -0,0 +1,15 @@
+export { PageDataExtractorRegistry } from "./PageDataExtractorRegistry";
+export {
+  builtinPageDataExtractors,
+  routerDataExtractor,
+  initialStateExtractor,
+  nuxtExtractor,
+  videoInfoResExtractor,
+} from "./builtinExtractors";
+export {
+  extractAssignedObject,
+  findAwemeItem,
+  normalizeAwemeItem,
+  parseJsonLoose,
+  sliceBalancedObject,
+} from "./pageDataUtils";
@@ -0,0 +1,289 @@
+import {
+  DouyinAuthor,
+  DouyinImage,
+  DouyinMention,
+  DouyinMusic,
+  DouyinStatistics,
+  DouyinVideoInfo,
+  PageDataContext,
+} from "../types";
+import { PageDataParseError } from "../errors";
+import { FileUtils } from "../utils/fileUtils";
+
+/**
+ * 从 startIndex 处的 `{` 开始，按括号配对截取完整的对象字面量
+ */
+export function sliceBalancedObject(
+  text: string,
+  startIndex: number
+): string | null {
+  if (text[startIndex] !== "{") {
+    return null;
+  }
+
+  let depth = 0;
+  let inString: string | null = null;
+
+  for (let i = startIndex; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === "\\") {
+        i++;
+      } else if (char === inString) {
+        inString = null;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      inString = char;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0) {
+        return text.slice(startIndex, i + 1);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 解析页面中的 JSON 片段，兼容 JS 字面量中常见的 undefined
+ */
+export function parseJsonLoose(source: string): any {
+  try {
+    return JSON.parse(source);
+  } catch {
+    return JSON.parse(source.replace(/:\s*undefined\b/g, ":null"));
+  }
+}
+
+/**
+ * 提取形如 `window.NAME = {...}` 的赋值数据，未找到或无法解析时返回 null
+ */
+export function extractAssignedObject(html: string, name: string): any {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = new RegExp(`window\\.${escaped}\\s*=\\s*`).exec(html);
+  if (!match) {
+    return null;
+  }
+
+  const objectText = sliceBalancedObject(html, match.index + match[0].length);
+  if (!objectText) {
+    return null;
+  }
+
+  try {
+    return parseJsonLoose(objectText);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 在任意页面数据结构中查找作品条目（item_list[0] 或带 aweme_id 的对象）
+ */
+export function findAwemeItem(data: any, maxDepth: number = 8): any {
+  if (!data || typeof data !== "object" || maxDepth < 0) {
+    return null;
+  }
+
+  if (Array.isArray(data.item_list) && data.item_list.length > 0) {
+    return data.item_list[0];
+  }
+  if (data.aweme_id && (data.video || data.images)) {
+    return data;
+  }
+
+  for (const value of Object.values(data)) {
+    const found = findAwemeItem(value, maxDepth - 1);
+    if (found) {
+      return found;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 将页面中的作品条目转换为标准化的视频信息
+ */
+export function normalizeAwemeItem(
+  item: any,
+  context: PageDataContext,
+  extractor: string
+): DouyinVideoInfo {
+  const images = normalizeImages(item?.images);
+  const music = normalizeMusic(item?.music);
+  // 各 CDN 镜像地址，去掉水印标记
+  const playUrls: string[] = Array.from(
+    new Set(
+      (item?.video?.play_addr?.url_list || [])
+        .filter((url: unknown) => typeof url === "string" && url)
+        .map((url: string) => url.replace("playwm", "play"))
+    )
+  );
+  const playUrl: string | undefined = playUrls[0];
+  if (!playUrl && images.length === 0) {
+    throw new PageDataParseError("页面数据中缺少视频播放地址", {
+      videoId: context.videoId,
+    });
+  }
+
+  // 获取无水印视频URL；图集作品使用背景音乐地址
+  const downloadUrl =
+    images.length > 0 ? music?.playUrl || "" : (playUrl as string);
+  const desc = item.desc?.trim() || `douyin_${context.videoId}`;
+  const durationMs = toNumber(item.video?.duration ?? item.duration);
+
+  return {
+    videoId: context.videoId,
+    title: FileUtils.sanitizeFilename(desc),
+    downloadUrl,
+    downloadUrls: images.length > 0 ? undefined : playUrls,
+    desc,
+    extractor,
+    contentType: images.length > 0 ? "images" : "video",
+    images: images.length > 0 ? images : undefined,
+    author: normalizeAuthor(item.author),
+    createTime: toNumber(item.create_time),
+    duration: durationMs !== undefined ? durationMs / 1000 : undefined,
+    coverUrl:
+      firstUrl(item.video?.cover) || firstUrl(item.video?.origin_cover),
+    dynamicCoverUrl: firstUrl(item.video?.dynamic_cover),
+    hashtags: extractHashtags(item),
+    mentions: extractMentions(item),
+    music,
+    statistics: normalizeStatistics(item.statistics),
+  };
+}
+
+function firstUrl(image: any): string | undefined {
+  return image?.url_list?.[0] || undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = Number(value);
+  return value !== undefined && value !== null && Number.isFinite(number)
+    ? number
+    : undefined;
+}
+
+function toId(value: unknown): string | undefined {
+  return value !== undefined && value !== null && value !== ""
+    ? String(value)
+    : undefined;
+}
+
+/**
+ * 图集图片：url_list 通常无水印，download_url_list 带水印，仅在缺失时使用
+ */
+function normalizeImages(images: any): DouyinImage[] {
+  if (!Array.isArray(images)) {
+    return [];
+  }
+
+  return images
+    .map((image): DouyinImage | null => {
+      const urls: string[] = [
+        ...(image?.url_list || []),
+        ...(image?.download_url_list || []),
+      ];
+      const preferred = urls.find((url) => !/water/i.test(url)) || urls[0];
+      return preferred
+        ? {
+            url: preferred,
+            urlList: urls,
+            width: toNumber(image.width),
+            height: toNumber(image.height),
+          }
+        : null;
+    })
+    .filter((image): image is DouyinImage => image !== null);
+}
+
+function normalizeAuthor(author: any): DouyinAuthor | undefined {
+  if (!author) {
+    return undefined;
+  }
+  return {
+    nickname: author.nickname,
+    uid: toId(author.uid),
+    secUid: toId(author.sec_uid),
+    avatarUrl:
+      firstUrl(author.avatar_thumb) ||
+      firstUrl(author.avatar_medium) ||
+      firstUrl(author.avatar_larger),
+  };
+}
+
+function normalizeMusic(music: any): DouyinMusic | undefined {
+  if (!music) {
+    return undefined;
+  }
+  return {
+    id: toId(music.id_str ?? music.id),
+    title: music.title,
+    author: music.author,
+    playUrl: firstUrl(music.play_url),
+    coverUrl: firstUrl(music.cover_thumb) || firstUrl(music.cover_medium),
+    duration: toNumber(music.duration),
+  };
+}
+
+function normalizeStatistics(statistics: any): DouyinStatistics | undefined {
+  if (!statistics) {
+    return undefined;
+  }
+  return {
+    diggCount: toNumber(statistics.digg_count),
+    commentCount: toNumber(statistics.comment_count),
+    shareCount: toNumber(statistics.share_count),
+    collectCount: toNumber(statistics.collect_count),
+    playCount: toNumber(statistics.play_count),
+  };
+}
+
+/**
+ * 从 text_extra 中提取话题，缺失时退回到从描述中匹配 #话题
+ */
+function extractHashtags(item: any): string[] {
+  const textExtra: any[] = Array.isArray(item.text_extra)
+    ? item.text_extra
+    : [];
+  const fromExtra = textExtra
+    .filter((extra) => extra.type === 1 && extra.hashtag_name)
+    .map((extra) => String(extra.hashtag_name));
+
+  if (fromExtra.length > 0) {
+    return Array.from(new Set(fromExtra));
+  }
+
+  const fromDesc: string[] = (item.desc || "").match(/#([^\s#@]+)/g) || [];
+  return Array.from(new Set(fromDesc.map((tag) => tag.slice(1))));
+}
+
+/**
+ * 从 text_extra 中提取 @ 的用户，昵称取自描述中对应的文本区间
+ */
+function extractMentions(item: any): DouyinMention[] {
+  const textExtra: any[] = Array.isArray(item.text_extra)
+    ? item.text_extra
+    : [];
+  const desc: string = item.desc || "";
+
+  return textExtra
+    .filter((extra) => extra.type === 0 && (extra.user_id || extra.sec_uid))
+    .map((extra) => ({
+      nickname: desc
+        .slice(extra.start ?? 0, extra.end ?? 0)
+        .replace(/^@/, "")
+        .trim(),
+      uid: toId(extra.user_id),
+      secUid: toId(extra.sec_uid),
+    }));
+}
@@ -0,0 +1,94 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { Readable } from "stream";
+import {
+  AudioInput,
+  FixtureOptions,
+  Logger,
+  SpeechRecognizer,
+  Transcript,
+  TranscribeOptions,
+} from "../types";
+import { FixtureNotFoundError } from "../errors";
+import { AsyncUtils } from "../utils/asyncUtils";
+import defaultLogger from "../utils/logger";
+import { FixtureStore } from "./FixtureStore";
+
+/**
+ * 录制/回放语音识别结果的包装器：
+ * record 时调用被包装的识别器并保存结果，replay 时按音频内容
+ * （不匹配时按调用顺序）返回录制的结果，不调用识别器
+ */
+export class FixtureRecognizer implements SpeechRecognizer {
+  readonly name: string;
+  readonly model: string;
+  private readonly store: FixtureStore;
+  private readonly recognizer?: SpeechRecognizer;
+  private readonly logger: Logger;
+
+  /**
+   * @param recognizer 被包装的识别器，录制模式下必需
+   */
+  constructor(
+    options: FixtureOptions,
+    recognizer?: SpeechRecognizer,
+    logger: Logger = defaultLogger
+  ) {
+    if (options.mode === "record" && !recognizer) {
+      throw new Error("录制模式需要提供语音识别器");
+    }
+    this.store = new FixtureStore(options.dir, options.mode);
+    this.recognizer = recognizer;
+    this.logger = logger;
+    this.name = recognizer?.name ?? "fixture";
+    this.model = recognizer?.model ?? "replay";
+  }
+
+  async transcribe(
+    audio: AudioInput,
+    options: TranscribeOptions = {}
+  ): Promise<Transcript> {
+    AsyncUtils.throwIfAborted(options.signal, "speech_recognition");
+    // 流只能读取一次，先读入内存再计算哈希和转发
+    const data =
+      typeof audio === "string"
+        ? await fs.promises.readFile(audio)
+        : await readAll(audio);
+    const audioHash = crypto.createHash("sha256").update(data).digest("hex");
+
+    if (this.store.mode === "replay") {
+      const match = this.store.takeTranscript(audioHash);
+      if (!match) {
+        throw new FixtureNotFoundError(
+          "录制数据中没有剩余的识别结果",
+          "speech_recognition"
+        );
+      }
+      if (match.matchedBy === "order") {
+        this.logger.warn("音频内容与录制时不一致，按调用顺序回放识别结果", {
+          audioHash,
+        });
+      }
+      return match.transcript;
+    }
+
+    const transcript = await (this.recognizer as SpeechRecognizer).transcribe(
+      typeof audio === "string" ? audio : Readable.from([data]),
+      options
+    );
+    this.store.addTranscript(audioHash, transcript);
+    this.logger.debug("已录制识别结果", {
+      audioHash,
+      textLength: transcript.text.length,
+    });
+    return transcript;
+  }
+}
+
+async function readAll(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,138 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  FixtureMode,
+  HttpFixtureEntry,
+  SpeechFixtureEntry,
+  Transcript,
+} from "../types";
+import { FileUtils } from "../utils/fileUtils";
+
+const HTTP_INDEX = "http.json";
+const SPEECH_INDEX = "speech.json";
+const BODIES_DIR = "bodies";
+
+/**
+ * 录制数据目录：
+ * - http.json：按请求顺序记录的 HTTP 请求
+ * - speech.json：按调用顺序记录的识别结果
+ * - bodies/<sha256>：响应体，按内容去重
+ *
+ * 录制模式从空记录开始，覆盖目录中已有的索引；回放模式读取已有记录
+ */
+export class FixtureStore {
+  readonly dir: string;
+  readonly mode: FixtureMode;
+  private httpEntries: HttpFixtureEntry[] = [];
+  private speechEntries: SpeechFixtureEntry[] = [];
+  /** 回放时每个请求已使用的次数，同一请求多次录制时按顺序返回 */
+  private readonly httpCursors = new Map<string, number>();
+  private readonly usedSpeech = new Set<number>();
+
+  constructor(dir: string, mode: FixtureMode) {
+    this.dir = dir;
+    this.mode = mode;
+
+    if (mode === "replay") {
+      this.httpEntries = this.readIndex<HttpFixtureEntry>(HTTP_INDEX);
+      this.speechEntries = this.readIndex<SpeechFixtureEntry>(SPEECH_INDEX);
+    }
+  }
+
+  /**
+   * 计算内容的 sha256
+   */
+  static hash(data: Buffer): string {
+    return crypto.createHash("sha256").update(data).digest("hex");
+  }
+
+  /**
+   * 记录一次 HTTP 请求及其响应体
+   */
+  addHttp(
+    entry: Omit<HttpFixtureEntry, "bodyHash" | "bodySize">,
+    body: Buffer
+  ): void {
+    const bodyHash = FixtureStore.hash(body);
+    const bodyPath = path.join(this.dir, BODIES_DIR, bodyHash);
+    if (!fs.existsSync(bodyPath)) {
+      FileUtils.ensureDir(path.dirname(bodyPath));
+      fs.writeFileSync(bodyPath, body);
+    }
+
+    this.httpEntries.push({ ...entry, bodyHash, bodySize: body.length });
+    this.writeIndex(HTTP_INDEX, this.httpEntries);
+  }
+
+  /**
+   * 取出与请求匹配的下一条记录，同一请求的记录用完后重复返回最后一条
+   */
+  takeHttp(
+    method: string,
+    url: string
+  ): { entry: HttpFixtureEntry; body: Buffer } | undefined {
+    const key = `${method.toUpperCase()} ${url}`;
+    const matches = this.httpEntries.filter(
+      (entry) => `${entry.method} ${entry.url}` === key
+    );
+    if (matches.length === 0) {
+      return undefined;
+    }
+
+    const cursor = this.httpCursors.get(key) ?? 0;
+    this.httpCursors.set(key, cursor + 1);
+    const entry = matches[Math.min(cursor, matches.length - 1)];
+    const body = fs.readFileSync(
+      path.join(this.dir, BODIES_DIR, entry.bodyHash)
+    );
+    return { entry, body };
+  }
+
+  /**
+   * 记录一次识别结果
+   */
+  addTranscript(audioHash: string, transcript: Transcript): void {
+    this.speechEntries.push({ audioHash, transcript });
+    this.writeIndex(SPEECH_INDEX, this.speechEntries);
+  }
+
+  /**
+   * 按音频内容取出识别结果；内容不匹配（如本地 ffmpeg 版本不同导致音频
+   * 字节变化）时退回到按调用顺序取下一条未使用的记录
+   */
+  takeTranscript(
+    audioHash: string
+  ): { transcript: Transcript; matchedBy: "hash" | "order" } | undefined {
+    let index = this.speechEntries.findIndex(
+      (entry, i) => !this.usedSpeech.has(i) && entry.audioHash === audioHash
+    );
+    const matchedBy = index >= 0 ? "hash" : "order";
+    if (index < 0) {
+      index = this.speechEntries.findIndex((_, i) => !this.usedSpeech.has(i));
+    }
+    if (index < 0) {
+      return undefined;
+    }
+
+    this.usedSpeech.add(index);
+    return { transcript: this.speechEntries[index].transcript, matchedBy };
+  }
+
+  private readIndex<T>(name: string): T[] {
+    const filePath = path.join(this.dir, name);
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  }
+
+  private writeIndex(name: string, entries: unknown[]): void {
+    FileUtils.ensureDir(this.dir);
+    fs.writeFileSync(
+      path.join(this.dir, name),
+      JSON.stringify(entries, null, 2),
+      "utf-8"
+    );
+  }
+}
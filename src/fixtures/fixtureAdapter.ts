@@ -0,0 +1,198 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { pipeline, Readable, Transform } from "stream";
+import { HttpFixtureRedirect, Logger } from "../types";
+import { FixtureNotFoundError } from "../errors";
+import defaultLogger from "../utils/logger";
+import { FixtureStore } from "./FixtureStore";
+
+/**
+ * 创建录制/回放用的 axios adapter：
+ * record 时调用默认 adapter 并保存重定向链、响应头和响应体；
+ * replay 时从录制数据构造响应，不访问网络
+ */
+export function createFixtureAdapter(
+  store: FixtureStore,
+  logger: Logger = defaultLogger
+): AxiosAdapter {
+  const networkAdapter = axios.getAdapter(axios.defaults.adapter);
+
+  return async (config) => {
+    const method = (config.method || "get").toUpperCase();
+    const url = axios.getUri(config);
+
+    if (store.mode === "replay") {
+      return replay(store, config, method, url);
+    }
+
+    const redirects: HttpFixtureRedirect[] = [];
+    const beforeRedirect = config.beforeRedirect;
+    let currentUrl = url;
+    config.beforeRedirect = (options, responseDetails) => {
+      redirects.push({
+        url: currentUrl,
+        status: responseDetails.statusCode,
+        location: options.href,
+        headers: responseDetails.headers,
+      });
+      currentUrl = options.href;
+      beforeRedirect?.(options, responseDetails);
+    };
+
+    const save = (response: AxiosResponse, body: Buffer) => {
+      const headers = toPlainHeaders(response.headers);
+      if (headers["content-length"] !== undefined) {
+        // 响应体可能已被解压，按实际保存的大小记录
+        headers["content-length"] = String(body.length);
+      }
+      store.addHttp(
+        {
+          method,
+          url,
+          finalUrl: response.request?.res?.responseUrl || currentUrl,
+          status: response.status,
+          statusText: response.statusText,
+          headers,
+          redirects,
+        },
+        body
+      );
+      logger.debug("已录制 HTTP 请求", {
+        method,
+        url,
+        status: response.status,
+        size: body.length,
+      });
+    };
+
+    try {
+      const response = await networkAdapter(config);
+      record(response, save);
+      return response;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        record(error.response, save, true);
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * 记录响应体；流式响应在数据流经时收集，读取完毕后保存
+ */
+function record(
+  response: AxiosResponse,
+  save: (response: AxiosResponse, body: Buffer) => void,
+  drain = false
+): void {
+  const data = response.data;
+  if (!(data instanceof Readable)) {
+    save(
+      response,
+      Buffer.isBuffer(data) ? data : Buffer.from(String(data ?? ""))
+    );
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  const recorder = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk);
+      callback(null, chunk);
+    },
+    flush(callback) {
+      save(response, Buffer.concat(chunks));
+      callback();
+    },
+  });
+  // 调用方中途销毁流（取消、停滞超时）时不保存不完整的响应体
+  pipeline(data, recorder, () => undefined);
+  response.data = recorder;
+  if (drain) {
+    // 错误响应通常不会被读取，主动读完以便保存
+    recorder.resume();
+  }
+}
+
+function replay(
+  store: FixtureStore,
+  config: InternalAxiosRequestConfig,
+  method: string,
+  url: string
+): AxiosResponse {
+  const match = store.takeHttp(method, url);
+  if (!match) {
+    throw new FixtureNotFoundError(
+      `录制数据中没有匹配的请求: ${method} ${url}`
+    );
+  }
+  const { entry, body } = match;
+
+  // 依次触发重定向回调，使中间响应的 Set-Cookie 照常写入 cookie 存储
+  for (const redirect of entry.redirects) {
+    config.beforeRedirect?.(
+      { href: redirect.location, headers: {} },
+      {
+        headers: redirect.headers as Record<string, string>,
+        statusCode: redirect.status,
+      }
+    );
+  }
+
+  let data: unknown;
+  if (config.responseType === "stream") {
+    data = Readable.from([body]);
+  } else if (config.responseType === "arraybuffer") {
+    data = body;
+  } else {
+    data = body.toString("utf-8");
+  }
+
+  const request = { res: { responseUrl: entry.finalUrl } };
+  const response: AxiosResponse = {
+    data,
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: new AxiosHeaders(entry.headers),
+    config,
+    request,
+  };
+
+  if (!config.validateStatus || config.validateStatus(entry.status)) {
+    return response;
+  }
+  const code =
+    entry.status >= 500
+      ? AxiosError.ERR_BAD_RESPONSE
+      : AxiosError.ERR_BAD_REQUEST;
+  throw new AxiosError(
+    `Request failed with status code ${entry.status}`,
+    code,
+    config,
+    request,
+    response
+  );
+}
+
+function toPlainHeaders(
+  headers: AxiosResponse["headers"]
+): Record<string, string | string[]> {
+  const raw = AxiosHeaders.from(
+    headers as Record<string, string | string[]>
+  ).toJSON();
+  const plain: Record<string, string | string[]> = {};
+  Object.entries(raw).forEach(([name, value]) => {
+    if (typeof value === "string" || Array.isArray(value)) {
+      plain[name.toLowerCase()] = value;
+    } else if (value !== undefined && value !== null && value !== false) {
+      plain[name.toLowerCase()] = String(value);
+    }
+  });
+  return plain;
+}
@@ -0,0 +1,3 @@
+export { FixtureStore } from "./FixtureStore";
+export { FixtureRecognizer } from "./FixtureRecognizer";
+export { createFixtureAdapter } from "./fixtureAdapter";
@@ -0,0 +1,251 @@
+import fs from "fs";
+import path from "path";
+import { HttpCookie } from "../types";
+
+/**
+ * 简单的 cookie 存储：解析 Set-Cookie，按域名、路径、过期时间和 secure
+ * 匹配请求，可读写 Netscape 格式的 cookies.txt
+ */
+export class CookieJar {
+  private cookies: HttpCookie[] = [];
+
+  constructor(cookies: HttpCookie[] = []) {
+    cookies.forEach((cookie) => this.setCookie(cookie));
+  }
+
+  /**
+   * 从 Netscape 格式的 cookies.txt 创建，文件不存在时返回空的 cookie 存储
+   */
+  static fromFile(filePath: string): CookieJar {
+    if (!fs.existsSync(filePath)) {
+      return new CookieJar();
+    }
+    return new CookieJar(
+      CookieJar.parseNetscape(fs.readFileSync(filePath, "utf8"))
+    );
+  }
+
+  /**
+   * 解析 Netscape 格式的 cookies.txt 内容（支持 #HttpOnly_ 前缀）
+   */
+  static parseNetscape(content: string): HttpCookie[] {
+    const cookies: HttpCookie[] = [];
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      let line = rawLine.trim();
+      let httpOnly = false;
+      if (line.startsWith("#HttpOnly_")) {
+        line = line.slice("#HttpOnly_".length);
+        httpOnly = true;
+      } else if (!line || line.startsWith("#")) {
+        continue;
+      }
+
+      const fields = line.split("\t");
+      if (fields.length < 7) {
+        continue;
+      }
+      const [domain, includeSubdomains, cookiePath, secure, expires, name] =
+        fields;
+      cookies.push({
+        name,
+        value: fields.slice(6).join("\t"),
+        domain: domain.toLowerCase(),
+        includeSubdomains: includeSubdomains.toUpperCase() === "TRUE",
+        path: cookiePath || "/",
+        secure: secure.toUpperCase() === "TRUE",
+        httpOnly,
+        expires: parseInt(expires, 10) || 0,
+      });
+    }
+
+    return cookies;
+  }
+
+  /**
+   * 记录响应中的 Set-Cookie，返回 cookie 是否有变化
+   */
+  setCookies(setCookie: string | string[] | undefined, url: string): boolean {
+    if (!setCookie) {
+      return false;
+    }
+    const headers = Array.isArray(setCookie) ? setCookie : [setCookie];
+    let changed = false;
+
+    for (const header of headers) {
+      const cookie = CookieJar.parseSetCookie(header, url);
+      if (cookie) {
+        this.setCookie(cookie);
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * 生成请求 url 时应携带的 Cookie 请求头，没有匹配的 cookie 时返回空字符串
+   */
+  getCookieHeader(url: string): string {
+    const target = new URL(url);
+    const host = target.hostname.toLowerCase();
+    const now = Date.now() / 1000;
+
+    return this.cookies
+      .filter((cookie) => {
+        if (cookie.expires > 0 && cookie.expires < now) {
+          return false;
+        }
+        if (cookie.secure && target.protocol !== "https:") {
+          return false;
+        }
+        return (
+          CookieJar.domainMatches(cookie, host) &&
+          CookieJar.pathMatches(cookie.path, target.pathname)
+        );
+      })
+      .sort((a, b) => b.path.length - a.path.length)
+      .map((cookie) => `${cookie.name}=${cookie.value}`)
+      .join("; ");
+  }
+
+  /**
+   * 当前未过期的全部 cookie
+   */
+  getCookies(): HttpCookie[] {
+    const now = Date.now() / 1000;
+    return this.cookies.filter(
+      (cookie) => cookie.expires === 0 || cookie.expires >= now
+    );
+  }
+
+  /**
+   * 序列化为 Netscape 格式
+   */
+  toNetscape(): string {
+    const lines = this.getCookies().map((cookie) =>
+      [
+        `${cookie.httpOnly ? "#HttpOnly_" : ""}${cookie.domain}`,
+        cookie.includeSubdomains ? "TRUE" : "FALSE",
+        cookie.path,
+        cookie.secure ? "TRUE" : "FALSE",
+        String(cookie.expires),
+        cookie.name,
+        cookie.value,
+      ].join("\t")
+    );
+    return ["# Netscape HTTP Cookie File", ...lines, ""].join("\n");
+  }
+
+  /**
+   * 以 Netscape 格式写入文件
+   */
+  saveToFile(filePath: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, this.toNetscape(), "utf8");
+  }
+
+  /**
+   * 添加或替换一个 cookie（按名称、域名、路径区分）
+   */
+  setCookie(cookie: HttpCookie): void {
+    this.cookies = this.cookies.filter(
+      (item) =>
+        !(
+          item.name === cookie.name &&
+          item.domain === cookie.domain &&
+          item.path === cookie.path
+        )
+    );
+    // 过期时间已过的 Set-Cookie 用于删除 cookie
+    if (cookie.expires === 0 || cookie.expires >= Date.now() / 1000) {
+      this.cookies.push(cookie);
+    }
+  }
+
+  private static parseSetCookie(
+    header: string,
+    url: string
+  ): HttpCookie | undefined {
+    const [pair, ...attributes] = header.split(";");
+    const separator = pair.indexOf("=");
+    if (separator <= 0) {
+      return undefined;
+    }
+
+    const target = new URL(url);
+    const cookie: HttpCookie = {
+      name: pair.slice(0, separator).trim(),
+      value: pair.slice(separator + 1).trim(),
+      domain: target.hostname.toLowerCase(),
+      includeSubdomains: false,
+      path: "/",
+      secure: false,
+      httpOnly: false,
+      expires: 0,
+    };
+    let maxAge: number | undefined;
+
+    for (const attribute of attributes) {
+      const [rawKey, ...rest] = attribute.split("=");
+      const key = rawKey.trim().toLowerCase();
+      const value = rest.join("=").trim();
+
+      if (key === "domain" && value) {
+        const domain = value.replace(/^\./, "").toLowerCase();
+        // 不接受为其他站点设置的 cookie
+        const allowed = CookieJar.domainMatches(
+          { domain, includeSubdomains: true },
+          cookie.domain
+        );
+        if (!allowed) {
+          return undefined;
+        }
+        cookie.domain = `.${domain}`;
+        cookie.includeSubdomains = true;
+      } else if (key === "path" && value.startsWith("/")) {
+        cookie.path = value;
+      } else if (key === "expires") {
+        const time = Date.parse(value);
+        if (!isNaN(time)) {
+          cookie.expires = Math.floor(time / 1000);
+        }
+      } else if (key === "max-age") {
+        maxAge = parseInt(value, 10);
+      } else if (key === "secure") {
+        cookie.secure = true;
+      } else if (key === "httponly") {
+        cookie.httpOnly = true;
+      }
+    }
+
+    // Max-Age 优先于 Expires，<= 0 表示立即过期
+    if (maxAge !== undefined && !isNaN(maxAge)) {
+      cookie.expires =
+        maxAge > 0 ? Math.floor(Date.now() / 1000) + maxAge : 1;
+    }
+
+    return cookie;
+  }
+
+  private static domainMatches(
+    cookie: Pick<HttpCookie, "domain" | "includeSubdomains">,
+    host: string
+  ): boolean {
+    const domain = cookie.domain.replace(/^\./, "");
+    if (host === domain) {
+      return true;
+    }
+    return cookie.includeSubdomains && host.endsWith(`.${domain}`);
+  }
+
+  private static pathMatches(cookiePath: string, requestPath: string): boolean {
+    if (requestPath === cookiePath || cookiePath === "/") {
+      return true;
+    }
+    return (
+      requestPath.startsWith(cookiePath) &&
+      (cookiePath.endsWith("/") || requestPath[cookiePath.length] === "/")
+    );
+  }
+}
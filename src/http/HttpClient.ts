@@ -0,0 +1,192 @@
+import axios, {
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import * as http from "http";
+import { HttpProxyAgent } from "http-proxy-agent";
+import { HttpsProxyAgent } from "https-proxy-agent";
+import { SocksProxyAgent } from "socks-proxy-agent";
+import { HttpClientOptions, Logger } from "../types";
+import { createFixtureAdapter, FixtureStore } from "../fixtures";
+import defaultLogger from "../utils/logger";
+import { CookieJar } from "./CookieJar";
+
+/**
+ * 默认 User-Agent（移动端 Edge），抖音分享页对移动端返回内嵌数据的页面
+ */
+export const DEFAULT_USER_AGENT =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) EdgiOS/121.0.2277.107 Version/17.0 Mobile/15E148 Safari/604.1";
+
+export interface ProxyAgents {
+  httpAgent: http.Agent;
+  httpsAgent: http.Agent;
+}
+
+/**
+ * 根据代理地址创建 axios 使用的 http / https agent
+ */
+export function createProxyAgents(proxy: string): ProxyAgents {
+  const protocol = new URL(proxy).protocol;
+
+  if (protocol.startsWith("socks")) {
+    const agent = new SocksProxyAgent(proxy);
+    return { httpAgent: agent, httpsAgent: agent };
+  }
+  if (protocol === "http:" || protocol === "https:") {
+    return {
+      httpAgent: new HttpProxyAgent(proxy),
+      httpsAgent: new HttpsProxyAgent(proxy),
+    };
+  }
+  throw new Error(`不支持的代理协议: ${protocol}`);
+}
+
+/**
+ * 带代理、cookie 存储、附加请求头和 User-Agent 池的 axios 封装。
+ * 通过 `axios` 发起的请求会自动携带并记录 cookie（包括重定向过程中的
+ * Set-Cookie），未指定 User-Agent 的请求从池中取一个
+ */
+export class HttpClient {
+  readonly axios: AxiosInstance;
+  readonly cookieJar: CookieJar;
+  private readonly logger: Logger;
+  private readonly cookiesFile?: string;
+  private readonly userAgents: string[];
+  private readonly userAgentRotation: "round-robin" | "random";
+  private userAgentIndex = 0;
+
+  constructor(options: HttpClientOptions = {}) {
+    this.logger = options.logger ?? defaultLogger;
+    this.cookiesFile = options.cookiesFile;
+    this.cookieJar = options.cookiesFile
+      ? CookieJar.fromFile(options.cookiesFile)
+      : new CookieJar();
+    options.cookies?.forEach((cookie) => this.cookieJar.setCookie(cookie));
+    this.userAgents = options.userAgents?.length
+      ? [...options.userAgents]
+      : [DEFAULT_USER_AGENT];
+    this.userAgentRotation = options.userAgentRotation ?? "round-robin";
+
+    this.axios = axios.create({
+      headers: { ...options.headers },
+      // 显式配置代理时由 agent 处理，不再读取环境变量中的代理
+      ...(options.proxy
+        ? { ...createProxyAgents(options.proxy), proxy: false as const }
+        : {}),
+      ...(options.fixtures
+        ? {
+            adapter: createFixtureAdapter(
+              new FixtureStore(options.fixtures.dir, options.fixtures.mode),
+              this.logger
+            ),
+          }
+        : {}),
+    });
+    this.axios.interceptors.request.use((config) => this.onRequest(config));
+    this.axios.interceptors.response.use(
+      (response) => this.onResponse(response),
+      (error) => {
+        if (axios.isAxiosError(error) && error.response) {
+          this.onResponse(error.response);
+        }
+        return Promise.reject(error);
+      }
+    );
+
+    this.logger.debug("HTTP 客户端已创建", {
+      proxy: options.proxy ? HttpClient.maskProxy(options.proxy) : undefined,
+      cookiesFile: options.cookiesFile,
+      cookies: this.cookieJar.getCookies().length,
+      userAgents: this.userAgents.length,
+      fixtures: options.fixtures,
+    });
+  }
+
+  /**
+   * 从 User-Agent 池中取下一个
+   */
+  nextUserAgent(): string {
+    if (this.userAgentRotation === "random") {
+      const index = Math.floor(Math.random() * this.userAgents.length);
+      return this.userAgents[index];
+    }
+    const userAgent = this.userAgents[this.userAgentIndex];
+    this.userAgentIndex = (this.userAgentIndex + 1) % this.userAgents.length;
+    return userAgent;
+  }
+
+  /**
+   * 将当前 cookie 写回 cookiesFile（未配置时不做任何事）
+   */
+  saveCookies(): void {
+    if (!this.cookiesFile) {
+      return;
+    }
+    try {
+      this.cookieJar.saveToFile(this.cookiesFile);
+    } catch (error) {
+      this.logger.warn("保存 cookie 文件失败", {
+        cookiesFile: this.cookiesFile,
+        error: error instanceof Error ? error.message : "未知错误",
+      });
+    }
+  }
+
+  private onRequest(
+    config: InternalAxiosRequestConfig
+  ): InternalAxiosRequestConfig {
+    if (!config.headers.has("User-Agent")) {
+      config.headers.set("User-Agent", this.nextUserAgent());
+    }
+
+    let currentUrl = this.axios.getUri(config);
+    const cookie = this.cookieJar.getCookieHeader(currentUrl);
+    if (cookie) {
+      const existing = config.headers.get("Cookie");
+      config.headers.set(
+        "Cookie",
+        existing ? `${cookie}; ${existing}` : cookie
+      );
+    }
+
+    // 重定向由 follow-redirects 处理，需要在这里记录中间响应的 Set-Cookie，
+    // 并为重定向目标重新生成 Cookie 请求头
+    config.beforeRedirect = (options, responseDetails) => {
+      const setCookie = responseDetails.headers["set-cookie"];
+      if (this.cookieJar.setCookies(setCookie, currentUrl)) {
+        this.saveCookies();
+      }
+      currentUrl = options.href;
+
+      const headers = options.headers as Record<string, unknown>;
+      Object.keys(headers)
+        .filter((name) => name.toLowerCase() === "cookie")
+        .forEach((name) => delete headers[name]);
+      const redirectCookie = this.cookieJar.getCookieHeader(currentUrl);
+      if (redirectCookie) {
+        headers.Cookie = redirectCookie;
+      }
+    };
+
+    return config;
+  }
+
+  private onResponse(response: AxiosResponse): AxiosResponse {
+    const url =
+      response.request?.res?.responseUrl ||
+      this.axios.getUri(response.config);
+    if (this.cookieJar.setCookies(response.headers["set-cookie"], url)) {
+      this.saveCookies();
+    }
+    return response;
+  }
+
+  private static maskProxy(proxy: string): string {
+    const url = new URL(proxy);
+    if (url.password) {
+      url.password = "***";
+    }
+    return url.toString();
+  }
+}
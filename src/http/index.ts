@@ -0,0 +1,2 @@
+export * from "./CookieJar";
+export * from "./HttpClient";
@@ -1,9 +1,35 @@
 export { DouyinService } from "./services/DouyinService";
+export {
+  Downloader,
+  DownloaderOptions,
+  DownloadFileOptions,
+} from "./services/Downloader";
+export * from "./services/recognizers";
+export * from "./extractors";
+export * from "./cache";
+export * from "./http";
+export * from "./fixtures";
+export * from "./workspace";
+export * from "./events";
+export * from "./postprocessors";
+export * from "./analysis";
+export * from "./translation";
+export * from "./server";
+export * from "./cli";
 export { FileUtils } from "./utils/fileUtils";
+export { AudioUtils, AUDIO_PROFILES } from "./utils/audioUtils";
+export { SubtitleUtils } from "./utils/subtitleUtils";
 export * from "./types";
+export * from "./errors";
 
 // Re-export logger for users who want to configure logging
-export { default as logger } from "./utils/logger";
+export {
+  default as logger,
+  LogUtils,
+  createDefaultLogger,
+  getDefaultLogger,
+  setDefaultLogger,
+} from "./utils/logger";
 
 // Default export for convenience
 import { DouyinService } from "./services/DouyinService";
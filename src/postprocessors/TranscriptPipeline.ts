@@ -0,0 +1,54 @@
+import { Logger, Transcript, TranscriptProcessor } from "../types";
+import defaultLogger from "../utils/logger";
+import { defaultTranscriptProcessors } from "./builtinProcessors";
+
+/**
+ * 识别结果后处理链，按顺序执行各处理器。
+ * 单个处理器出错时跳过该处理器，使用上一步的结果继续
+ */
+export class TranscriptPipeline {
+  private readonly processors: TranscriptProcessor[];
+  private readonly logger: Logger;
+
+  /**
+   * @param processors 处理器，默认只去除 SenseVoice 标记
+   */
+  constructor(
+    processors: TranscriptProcessor[] = defaultTranscriptProcessors,
+    logger: Logger = defaultLogger
+  ) {
+    this.processors = [...processors];
+    this.logger = logger;
+  }
+
+  /**
+   * 处理器名称，按执行顺序排列
+   */
+  list(): string[] {
+    return this.processors.map((processor) => processor.name);
+  }
+
+  /**
+   * 依次执行处理器
+   * @param onError 处理器出错时调用
+   */
+  async process(
+    transcript: Transcript,
+    onError?: (processor: string, error: Error) => void
+  ): Promise<Transcript> {
+    let result = transcript;
+    for (const processor of this.processors) {
+      try {
+        result = await processor.process(result);
+      } catch (error) {
+        const cause = error instanceof Error ? error : new Error(String(error));
+        this.logger.warn("识别结果后处理失败，跳过该处理器", {
+          processor: processor.name,
+          error: cause.message,
+        });
+        onError?.(processor.name, cause);
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,273 @@
+import { Transcript, TranscriptProcessor } from "../types";
+import { toSimplified, toTraditional } from "./chineseScript";
+
+/** SenseVoice 输出中的标记，如 <|zh|><|NEUTRAL|><|Speech|><|withitn|> */
+const SENSEVOICE_TAG = /<\|([^|<>]*)\|>/g;
+const SENSEVOICE_LANGUAGES = new Set(["zh", "en", "yue", "ja", "ko"]);
+const SENSEVOICE_EMOTIONS = new Set([
+  "HAPPY",
+  "SAD",
+  "ANGRY",
+  "NEUTRAL",
+  "FEARFUL",
+  "DISGUSTED",
+  "SURPRISED",
+]);
+const SENSEVOICE_EVENTS = new Set([
+  "Speech",
+  "BGM",
+  "Applause",
+  "Laughter",
+  "Cry",
+  "Sneeze",
+  "Breath",
+  "Cough",
+]);
+
+const CJK = "\\u3400-\\u4dbf\\u4e00-\\u9fff";
+/** 语气词前后允许出现的边界：空白和常见标点 */
+const BOUNDARY = "\\s，。！？、；：,.!?;:";
+const FULL_WIDTH_PUNCTUATION: Record<string, string> = {
+  ",": "，",
+  "?": "？",
+  "!": "！",
+  ":": "：",
+  ";": "；",
+};
+
+/**
+ * 默认去除的语气词，只在单独成句或前后有标点时去除
+ */
+export const DEFAULT_FILLER_WORDS = [
+  "嗯",
+  "呃",
+  "额",
+  "啊",
+  "哦",
+  "唔",
+  "um",
+  "uh",
+  "erm",
+];
+
+export interface FillerWordOptions {
+  /** 要去除的语气词，默认: DEFAULT_FILLER_WORDS */
+  words?: string[];
+}
+
+export type ChineseScript = "simplified" | "traditional";
+
+export interface ScriptConversionOptions {
+  /** 转换的目标字形 */
+  target: ChineseScript;
+  /** 自定义转换实现（如 OpenCC），默认使用内置的常用字对照表 */
+  convert?: (text: string) => string;
+}
+
+export interface ParagraphOptions {
+  /** 相邻分段的间隔达到该时长（秒）时另起一段，默认: 1.5 */
+  pauseThreshold?: number;
+  /** 段落达到该字数后在下一个分段处另起一段，默认不限制 */
+  maxLength?: number;
+}
+
+/**
+ * 对文本和每个分段的文本应用 fn，去掉处理后为空的分段
+ */
+function mapText(
+  transcript: Transcript,
+  fn: (text: string) => string
+): Transcript {
+  return {
+    ...transcript,
+    text: fn(transcript.text),
+    segments: transcript.segments
+      ?.map((segment) => ({ ...segment, text: fn(segment.text) }))
+      .filter((segment) => segment.text.trim() !== ""),
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function mostFrequent(values: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  let result: string | undefined;
+  counts.forEach((count, value) => {
+    if (result === undefined || count > (counts.get(result) ?? 0)) {
+      result = value;
+    }
+  });
+  return result;
+}
+
+/**
+ * 去除 SenseVoice 的语言、情感和音频事件标记，识别出的信息写入
+ * language、emotion 和 audioEvents（识别提供方已返回 language 时保留原值）
+ */
+export const senseVoiceTagProcessor: TranscriptProcessor = {
+  name: "sensevoice-tags",
+  process(transcript: Transcript): Transcript {
+    const languages: string[] = [];
+    const emotions: string[] = [];
+    const events = new Set<string>();
+
+    const stripped = mapText(transcript, (text) =>
+      text
+        .replace(SENSEVOICE_TAG, (_match, tag: string) => {
+          if (SENSEVOICE_LANGUAGES.has(tag)) {
+            languages.push(tag);
+          } else if (SENSEVOICE_EMOTIONS.has(tag)) {
+            emotions.push(tag.toLowerCase());
+          } else if (SENSEVOICE_EVENTS.has(tag)) {
+            events.add(tag.toLowerCase());
+          }
+          return "";
+        })
+        .replace(/[ \t]{2,}/g, " ")
+        .trim()
+    );
+
+    return {
+      ...stripped,
+      language: transcript.language ?? languages[0],
+      emotion: transcript.emotion ?? mostFrequent(emotions),
+      audioEvents: events.size > 0 ? [...events] : transcript.audioEvents,
+    };
+  },
+};
+
+/**
+ * 规范中文标点：去掉汉字之间的空格，汉字后的半角标点改为全角，
+ * 合并重复的标点
+ */
+export const punctuationProcessor: TranscriptProcessor = {
+  name: "punctuation",
+  process(transcript: Transcript): Transcript {
+    return mapText(transcript, (text) =>
+      text
+        .replace(new RegExp(`([${CJK}])[ \\t]+(?=[${CJK}])`, "g"), "$1")
+        .replace(
+          new RegExp(`([${CJK}])[ \\t]*([,?!:;])[ \\t]*`, "g"),
+          (_match, char: string, mark: string) =>
+            char + FULL_WIDTH_PUNCTUATION[mark]
+        )
+        .replace(
+          new RegExp(`([${CJK}])\\.(?=\\s|$|[${CJK}])[ \\t]*`, "g"),
+          "$1。"
+        )
+        .replace(/([，。！？、；：])\1+/g, "$1")
+        .trim()
+    );
+  },
+};
+
+/**
+ * 创建去除语气词的处理器
+ */
+export function createFillerWordProcessor(
+  options: FillerWordOptions = {}
+): TranscriptProcessor {
+  const words = (options.words ?? DEFAULT_FILLER_WORDS).filter(Boolean);
+  // 长词优先匹配
+  const alternatives = [...words]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+  const pattern = new RegExp(
+    `(?<=^|[${BOUNDARY}])\\s*(?:(?:${alternatives})\\s*)+` +
+      `(?:[，、,]\\s*|(?=[${BOUNDARY}]|$))`,
+    "gi"
+  );
+
+  return {
+    name: "filler-words",
+    process(transcript: Transcript): Transcript {
+      if (words.length === 0) {
+        return transcript;
+      }
+      return mapText(transcript, (text) =>
+        text
+          .replace(pattern, "")
+          // 去掉语气词后留在句末标点前的逗号
+          .replace(/[，、,]\s*(?=[。！？.!?]|$)/g, "")
+          .replace(/\s{2,}/g, " ")
+          .trim()
+      );
+    },
+  };
+}
+
+/**
+ * 创建简繁转换的处理器
+ */
+export function createScriptConversionProcessor(
+  options: ChineseScript | ScriptConversionOptions
+): TranscriptProcessor {
+  const { target, convert } =
+    typeof options === "string" ? { target: options } : options;
+  const fn =
+    convert ?? (target === "traditional" ? toTraditional : toSimplified);
+
+  return {
+    name: `script-${target}`,
+    process(transcript: Transcript): Transcript {
+      return mapText(transcript, fn);
+    },
+  };
+}
+
+/**
+ * 创建按停顿分段的处理器：根据分段时间戳在较长的停顿处分成段落，
+ * 段落之间用空行分隔。识别结果没有分段时不做处理
+ */
+export function createParagraphProcessor(
+  options: ParagraphOptions = {}
+): TranscriptProcessor {
+  const { pauseThreshold = 1.5, maxLength } = options;
+
+  return {
+    name: "paragraphs",
+    process(transcript: Transcript): Transcript {
+      if (!transcript.segments || transcript.segments.length === 0) {
+        return transcript;
+      }
+
+      const paragraphs: string[] = [];
+      let current = "";
+      let previousEnd = 0;
+      for (const segment of transcript.segments) {
+        const text = segment.text.trim();
+        if (!text) {
+          continue;
+        }
+        const paused = segment.start - previousEnd >= pauseThreshold;
+        const tooLong = maxLength !== undefined && current.length >= maxLength;
+        if (current && (paused || tooLong)) {
+          paragraphs.push(current);
+          current = "";
+        }
+        // 英文单词之间保留空格
+        current +=
+          current && /[A-Za-z0-9]$/.test(current) && /^[A-Za-z0-9]/.test(text)
+            ? ` ${text}`
+            : text;
+        previousEnd = segment.end;
+      }
+      if (current) {
+        paragraphs.push(current);
+      }
+
+      return { ...transcript, text: paragraphs.join("\n\n") };
+    },
+  };
+}
+
+/**
+ * 默认的后处理器：只去除 SenseVoice 标记
+ */
+export const defaultTranscriptProcessors: TranscriptProcessor[] = [
+  senseVoiceTagProcessor,
+];
@@ -0,0 +1,100 @@
+/**
+ * 常用字的简繁对照表，逐字转换，不处理词语级的差异（如「头发」→「頭髮」）。
+ * 需要准确转换时可以在 createScriptConversionProcessor 中传入 OpenCC 等实现
+ */
+
+/** 一一对应的简体字和繁体字，按位置对应 */
+const SIMPLIFIED =
+  "爱罢备贝笔边变宾补参仓层产长尝厂场车陈称诚迟齿虫处传创词从错达带单担胆导" +
+  "灯敌递点电调东动冻读独断队对吨夺儿尔罚阀饭访飞废费纷坟奋丰风凤妇负该盖赶" +
+  "钢纲岗个给巩贡构购顾关观馆惯广归龟贵国过还汉号贺红护话画华欢环换挥会货机" +
+  "积鸡级极际济纪继记价驾坚间监简见舰剑将奖讲胶阶节结洁紧仅进经惊旧举剧据觉" +
+  "军开课块宽扩来兰蓝烂劳乐类离礼丽联练炼凉两辆疗辽邻灵领刘龙楼陆录虑乱论罗" +
+  "妈马吗买卖满猫么门们梦庙灭鸣难脑闹鸟宁农浓欧盘赔喷鹏贫评苹凭扑齐骑气弃钱" +
+  "浅墙桥亲轻庆穷区权劝确让热认荣软赛伞杀伤赏烧设绍摄审声胜绳师诗时识实势试" +
+  "视适释书属树数帅双谁顺说丝虽随岁孙损缩锁态谈汤涛讨题体条铁听厅头图团网为" +
+  "韦围伟卫纬闻问稳无务雾误习戏细虾吓显险现线乡详响项写谢兴选学寻训压鸭亚严" +
+  "盐颜验阳养样钥业页医仪亿忆艺议义阴银饮应营赢拥优邮犹鱼语与预园员圆远愿约" +
+  "阅跃运杂灾载则择泽责贼战张涨帐账赵这针侦阵镇争证郑织职执纸质终种众猪驻专" +
+  "转装壮状资总纵组钻频脸讯络标万丢丧临乌乔亏亩仑伦伪佣侠侣侧侨俩俭债倾偿储" +
+  "党兽册净减凑凯击刚删别剂办励劲勋协卢却厌县叙叶叹启呜哑哗唤圣坏坝垫垒壳够" +
+  "夸夹妆娱婴宝宠宪寿尘岂岛岭币帮庄库异弯弹彻忧怀怜恋恶恼悦惧惨愤扫扬扰抢报" +
+  "拟挂挡挤捡摆摇携旷昼晒晓暂术杨枪柜栏检歼残毕沟没泪洒测浏润渐湾湿滚滞炉烁" +
+  "焕爷牵狮猎献琐畅疯痒瘾盏睁矫码础碍祸窃竞笼筑签粮纠纯纳绕绘绝统绩续维综绿" +
+  "编缓缘肃肠肤胁脚腾艰苏荐药莱萝虚蚀蛮衬袭规览触誉计订许诉译谓财败贩贪贯贴" +
+  "贸赚趋践轨轮较辅辈辑输迁迈违连逻遗邓酱钓销锅键镜闪闭闷隐韩顶顿额飘饰饱饿" +
+  "驶骗鲜麦请链烟当";
+
+const TRADITIONAL =
+  "愛罷備貝筆邊變賓補參倉層產長嘗廠場車陳稱誠遲齒蟲處傳創詞從錯達帶單擔膽導" +
+  "燈敵遞點電調東動凍讀獨斷隊對噸奪兒爾罰閥飯訪飛廢費紛墳奮豐風鳳婦負該蓋趕" +
+  "鋼綱崗個給鞏貢構購顧關觀館慣廣歸龜貴國過還漢號賀紅護話畫華歡環換揮會貨機" +
+  "積雞級極際濟紀繼記價駕堅間監簡見艦劍將獎講膠階節結潔緊僅進經驚舊舉劇據覺" +
+  "軍開課塊寬擴來蘭藍爛勞樂類離禮麗聯練煉涼兩輛療遼鄰靈領劉龍樓陸錄慮亂論羅" +
+  "媽馬嗎買賣滿貓麼門們夢廟滅鳴難腦鬧鳥寧農濃歐盤賠噴鵬貧評蘋憑撲齊騎氣棄錢" +
+  "淺牆橋親輕慶窮區權勸確讓熱認榮軟賽傘殺傷賞燒設紹攝審聲勝繩師詩時識實勢試" +
+  "視適釋書屬樹數帥雙誰順說絲雖隨歲孫損縮鎖態談湯濤討題體條鐵聽廳頭圖團網為" +
+  "韋圍偉衛緯聞問穩無務霧誤習戲細蝦嚇顯險現線鄉詳響項寫謝興選學尋訓壓鴨亞嚴" +
+  "鹽顏驗陽養樣鑰業頁醫儀億憶藝議義陰銀飲應營贏擁優郵猶魚語與預園員圓遠願約" +
+  "閱躍運雜災載則擇澤責賊戰張漲帳賬趙這針偵陣鎮爭證鄭織職執紙質終種眾豬駐專" +
+  "轉裝壯狀資總縱組鑽頻臉訊絡標萬丟喪臨烏喬虧畝侖倫偽傭俠侶側僑倆儉債傾償儲" +
+  "黨獸冊淨減湊凱擊剛刪別劑辦勵勁勳協盧卻厭縣敘葉嘆啟嗚啞嘩喚聖壞壩墊壘殼夠" +
+  "誇夾妝娛嬰寶寵憲壽塵豈島嶺幣幫莊庫異彎彈徹憂懷憐戀惡惱悅懼慘憤掃揚擾搶報" +
+  "擬掛擋擠撿擺搖攜曠晝曬曉暫術楊槍櫃欄檢殲殘畢溝沒淚灑測瀏潤漸灣濕滾滯爐爍" +
+  "煥爺牽獅獵獻瑣暢瘋癢癮盞睜矯碼礎礙禍竊競籠築簽糧糾純納繞繪絕統績續維綜綠" +
+  "編緩緣肅腸膚脅腳騰艱蘇薦藥萊蘿虛蝕蠻襯襲規覽觸譽計訂許訴譯謂財敗販貪貫貼" +
+  "貿賺趨踐軌輪較輔輩輯輸遷邁違連邏遺鄧醬釣銷鍋鍵鏡閃閉悶隱韓頂頓額飄飾飽餓" +
+  "駛騙鮮麥請鏈煙當";
+
+/** 只在繁转简时使用的繁体字：对应的简体字有多个繁体写法，或本身也是常用的繁体字 */
+const TRADITIONAL_ONLY =
+  "後幾發髮隻臺颱於幹乾麵裡裏係繫歷曆復複鐘鍾餘衝盡儘獲穫匯彙夥遊週準製讚贊" +
+  "纔範鬆雲醜鬥徵錶闆瞭緻薑籤閒閑採屍僕鬍佈註傑嚮巖捲劃樸誌鹹佔鬱籲説爲衆綫" +
+  "麽";
+
+const TRADITIONAL_ONLY_SIMPLIFIED =
+  "后几发发只台台于干干面里里系系历历复复钟钟余冲尽尽获获汇汇伙游周准制赞赞" +
+  "才范松云丑斗征表板了致姜签闲闲采尸仆胡布注杰向岩卷划朴志咸占郁吁说为众线" +
+  "么";
+
+let toSimplifiedMap: Map<string, string> | undefined;
+let toTraditionalMap: Map<string, string> | undefined;
+
+function buildMap(
+  from: string,
+  to: string,
+  map: Map<string, string> = new Map()
+): Map<string, string> {
+  const source = Array.from(from);
+  const target = Array.from(to);
+  source.forEach((char, index) => map.set(char, target[index]));
+  return map;
+}
+
+function convert(text: string, map: Map<string, string>): string {
+  return Array.from(text, (char) => map.get(char) ?? char).join("");
+}
+
+/**
+ * 繁体转简体
+ */
+export function toSimplified(text: string): string {
+  if (!toSimplifiedMap) {
+    toSimplifiedMap = buildMap(
+      TRADITIONAL_ONLY,
+      TRADITIONAL_ONLY_SIMPLIFIED,
+      buildMap(TRADITIONAL, SIMPLIFIED)
+    );
+  }
+  return convert(text, toSimplifiedMap);
+}
+
+/**
+ * 简体转繁体，一简对多繁的字保持不变
+ */
+export function toTraditional(text: string): string {
+  if (!toTraditionalMap) {
+    toTraditionalMap = buildMap(SIMPLIFIED, TRADITIONAL);
+  }
+  return convert(text, toTraditionalMap);
+}
@@ -0,0 +1,15 @@
+export { TranscriptPipeline } from "./TranscriptPipeline";
+export {
+  defaultTranscriptProcessors,
+  senseVoiceTagProcessor,
+  punctuationProcessor,
+  createFillerWordProcessor,
+  createScriptConversionProcessor,
+  createParagraphProcessor,
+  DEFAULT_FILLER_WORDS,
+  FillerWordOptions,
+  ChineseScript,
+  ScriptConversionOptions,
+  ParagraphOptions,
+} from "./builtinProcessors";
+export { toSimplified, toTraditional } from "./chineseScript";
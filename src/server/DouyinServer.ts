@@ -0,0 +1,659 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { DouyinService } from "../services/DouyinService";
+import {
+  DouyinErrorInfo,
+  ExtractTextResponse,
+  Logger,
+  ParseUrlResponse,
+  RecognitionOptions,
+  SubtitleFormat,
+} from "../types";
+import { DouyinError } from "../errors";
+import { isLanguageTag } from "../translation";
+import {
+  ExtractionJob,
+  JobEvent,
+  JobManager,
+  JobManagerOptions,
+  JobOptions,
+} from "./JobManager";
+
+/**
+ * HTTP 服务配置选项
+ */
+export interface DouyinServerOptions extends JobManagerOptions {
+  /** 监听端口，默认: 3000 */
+  port?: number;
+  /** 监听地址，默认: 127.0.0.1（只接受本机请求） */
+  host?: string;
+  /**
+   * 访问令牌，设置后除 /health 外的请求需带 `Authorization: Bearer <token>`。
+   * 监听非本机地址时必须设置
+   */
+  authToken?: string;
+  /** 请求体大小上限（字节），默认: 1MB */
+  maxBodySize?: number;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".txt": "text/plain; charset=utf-8",
+  ".srt": "application/x-subrip; charset=utf-8",
+  ".vtt": "text/vtt; charset=utf-8",
+  ".mp3": "audio/mpeg",
+  ".flac": "audio/flac",
+  ".wav": "audio/wav",
+  ".ogg": "audio/ogg",
+};
+
+/**
+ * 是否为普通对象（非 null、非数组），用于收窄请求体中的未知值
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * 基于 Node.js http 模块的提取服务：提交任务、查询状态、SSE 推送进度、下载产物。
+ * 默认只监听本机，设置 authToken 后请求需带 Bearer 令牌
+ *
+ * - `GET  /health` 健康检查
+ * - `GET  /api/info` 接口说明
+ * - `POST /api/parse` 解析分享链接 `{ shareLink }`
+ * - `POST /api/extract-text` 同步提取文本 `{ shareLink, options? }`
+ * - `POST /api/jobs` 提交任务 `{ link | links, options? }`
+ * - `GET  /api/jobs` 任务列表
+ * - `GET  /api/jobs/:id` 任务状态和结果
+ * - `POST /api/jobs/:id/cancel` 取消任务
+ * - `GET  /api/jobs/:id/events` 以 Server-Sent Events 推送进度
+ * - `GET  /api/jobs/:id/artifacts/:name` 下载文本、字幕、音频
+ */
+export class DouyinServer {
+  readonly jobs: JobManager;
+  private readonly service: DouyinService;
+  private readonly port: number;
+  private readonly host: string;
+  private readonly authToken?: string;
+  private readonly maxBodySize: number;
+  private readonly logger: Logger;
+  private server: http.Server | null = null;
+
+  constructor(service: DouyinService, options: DouyinServerOptions = {}) {
+    this.service = service;
+    this.jobs = new JobManager(service, options);
+    this.port = options.port ?? 3000;
+    this.host = options.host || "127.0.0.1";
+    this.authToken = options.authToken || undefined;
+    this.maxBodySize = options.maxBodySize ?? 1024 * 1024;
+    this.logger = options.logger ?? service.getLogger();
+  }
+
+  /**
+   * 启动监听，返回实际监听的端口
+   */
+  start(): Promise<number> {
+    // 服务会按请求下载和转码任意链接，对外开放时必须鉴权
+    if (!this.authToken && !DouyinServer.isLoopback(this.host)) {
+      return Promise.reject(
+        new Error(`监听非本机地址 ${this.host} 时需要设置 authToken`)
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => {
+        this.handle(req, res).catch((error) => this.sendError(res, error));
+      });
+      server.once("error", reject);
+      server.listen(this.port, this.host, () => {
+        this.server = server;
+        const address = server.address();
+        const port =
+          typeof address === "object" && address ? address.port : this.port;
+        this.logger.info("HTTP 服务已启动", { host: this.host, port });
+        resolve(port);
+      });
+    });
+  }
+
+  /**
+   * 停止监听
+   */
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close((error) => (error ? reject(error) : resolve()));
+      // SSE 等长连接不会自行结束
+      this.server.closeAllConnections?.();
+      this.server = null;
+    });
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+    const method = req.method || "GET";
+    const pathname = url.pathname.replace(/\/+$/, "") || "/";
+    let match: RegExpMatchArray | null;
+
+    this.logger.debug("HTTP 请求", { method, pathname });
+
+    if (method === "GET" && pathname === "/health") {
+      return this.sendJson(res, 200, {
+        status: "ok",
+        version: DouyinServer.getVersion(),
+      });
+    }
+
+    this.authorize(req);
+
+    if (method === "GET" && pathname === "/api/info") {
+      return this.sendJson(res, 200, {
+        name: "douyin-text-extractor",
+        description: "抖音视频文本提取服务",
+        version: DouyinServer.getVersion(),
+        endpoints: {
+          "POST /api/parse": "解析抖音分享链接",
+          "POST /api/extract-text": "同步提取单个视频的文本",
+          "POST /api/jobs": "提交提取任务（单个或多个链接）",
+          "GET /api/jobs": "任务列表",
+          "GET /api/jobs/:id": "任务状态和结果",
+          "POST /api/jobs/:id/cancel": "取消排队中或运行中的任务",
+          "GET /api/jobs/:id/events": "以 Server-Sent Events 推送任务进度",
+          "GET /api/jobs/:id/artifacts/:name": "下载任务生成的文本、字幕和音频",
+        },
+      });
+    }
+
+    if (method === "POST" && pathname === "/api/parse") {
+      const body = await this.readJson(req);
+      const shareLink = this.requireString(body.shareLink, "shareLink");
+      try {
+        const data = await this.service.parseShareUrl(shareLink);
+        return this.sendJson(res, 200, {
+          status: "success",
+          data,
+        } as ParseUrlResponse);
+      } catch (error) {
+        const douyinError = DouyinError.from(error, "parsing");
+        return this.sendJson(res, this.statusFor(douyinError), {
+          status: "error",
+          error: douyinError.toJSON(),
+        } as ParseUrlResponse);
+      }
+    }
+
+    if (method === "POST" && pathname === "/api/extract-text") {
+      const body = await this.readJson(req);
+      const shareLink = this.requireString(body.shareLink, "shareLink");
+      const job = this.jobs.submit(
+        [shareLink],
+        this.parseJobOptions(body.options)
+      );
+      // 客户端提前断开时取消任务，避免继续消耗带宽和识别额度
+      res.on("close", () => {
+        if (!res.writableFinished) {
+          this.jobs.cancel(job.id);
+        }
+      });
+      await this.jobs.wait(job.id);
+      const result = job.results[0];
+      const response: ExtractTextResponse = {
+        status: result?.status || "error",
+        videoInfo: result?.videoInfo,
+        extractedText: result?.extractedText,
+        segments: result?.segments,
+        analysis: result?.analysis,
+        translation: result?.translation,
+        error: result?.error || job.error,
+        processingTime: result?.processingTime,
+      };
+      const statusCode =
+        response.status === "success"
+          ? 200
+          : response.error
+          ? this.statusFor(response.error)
+          : 502;
+      return this.sendJson(res, statusCode, {
+        ...response,
+        jobId: job.id,
+      });
+    }
+
+    if (method === "POST" && pathname === "/api/jobs") {
+      const body = await this.readJson(req);
+      const links: unknown[] = Array.isArray(body.links)
+        ? body.links
+        : body.link !== undefined
+        ? [body.link]
+        : [];
+      if (
+        links.length === 0 ||
+        links.some((link) => typeof link !== "string" || !link.trim())
+      ) {
+        throw new HttpError(
+          400,
+          "INVALID_REQUEST",
+          "请提供 link 或 links（非空字符串）"
+        );
+      }
+      const job = this.jobs.submit(
+        links as string[],
+        this.parseJobOptions(body.options)
+      );
+      return this.sendJson(res, 202, this.toJobView(job));
+    }
+
+    if (method === "GET" && pathname === "/api/jobs") {
+      return this.sendJson(res, 200, {
+        jobs: this.jobs.list().map((job) => this.toJobView(job)),
+      });
+    }
+
+    if (
+      method === "GET" &&
+      (match = pathname.match(/^\/api\/jobs\/([^/]+)$/))
+    ) {
+      return this.sendJson(res, 200, this.toJobView(this.requireJob(match[1])));
+    }
+
+    if (
+      method === "POST" &&
+      (match = pathname.match(/^\/api\/jobs\/([^/]+)\/cancel$/))
+    ) {
+      const job = this.requireJob(match[1]);
+      if (!this.jobs.cancel(job.id)) {
+        throw new HttpError(409, "JOB_FINISHED", `任务已结束: ${job.status}`);
+      }
+      return this.sendJson(res, 202, this.toJobView(job));
+    }
+
+    if (
+      method === "GET" &&
+      (match = pathname.match(/^\/api\/jobs\/([^/]+)\/events$/))
+    ) {
+      return this.streamEvents(req, res, this.requireJob(match[1]));
+    }
+
+    if (
+      method === "GET" &&
+      (match = pathname.match(/^\/api\/jobs\/([^/]+)\/artifacts\/([^/]+)$/))
+    ) {
+      const job = this.requireJob(match[1]);
+      const artifact = this.jobs.getArtifact(
+        job.id,
+        decodeURIComponent(match[2])
+      );
+      if (!artifact || !fs.existsSync(artifact.path)) {
+        throw new HttpError(404, "NOT_FOUND", "产物不存在");
+      }
+      res.writeHead(200, {
+        "Content-Type":
+          CONTENT_TYPES[path.extname(artifact.name)] ||
+          "application/octet-stream",
+        "Content-Length": artifact.size,
+        "Content-Disposition": `attachment; filename="${artifact.name}"`,
+      });
+      fs.createReadStream(artifact.path).pipe(res);
+      return;
+    }
+
+    throw new HttpError(404, "NOT_FOUND", `未知接口: ${method} ${pathname}`);
+  }
+
+  /**
+   * 以 Server-Sent Events 推送任务事件，任务结束后关闭连接
+   */
+  private streamEvents(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    job: ExtractionJob
+  ): void {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // 先推送当前快照，晚连接的客户端也能拿到完整状态
+    send("status", this.toJobView(job));
+    if (JobManager.isFinished(job.status)) {
+      send("done", { status: job.status });
+      res.end();
+      return;
+    }
+
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 15000);
+    const listener = (jobId: string, event: JobEvent) => {
+      if (jobId !== job.id) return;
+      switch (event.type) {
+        case "status":
+          send("status", this.toJobView(job));
+          break;
+        case "progress":
+          send("progress", { index: event.index, ...event.progress });
+          break;
+        case "item":
+          send("item", this.toItemView(job, event.result.index));
+          break;
+        case "done":
+          send("done", { status: event.status });
+          cleanup();
+          res.end();
+          break;
+      }
+    };
+    const cleanup = () => {
+      clearInterval(heartbeat);
+      this.jobs.off("event", listener);
+    };
+
+    this.jobs.on("event", listener);
+    req.on("close", cleanup);
+  }
+
+  private toJobView(job: ExtractionJob) {
+    return {
+      id: job.id,
+      status: job.status,
+      links: job.links,
+      options: job.options,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      progress: job.progress,
+      results: job.results.map((_, index) => this.toItemView(job, index)),
+      artifacts: job.artifacts.map((artifact) => ({
+        name: artifact.name,
+        type: artifact.type,
+        index: artifact.index,
+        size: artifact.size,
+        url: `/api/jobs/${job.id}/artifacts/${encodeURIComponent(
+          artifact.name
+        )}`,
+      })),
+      error: job.error,
+    };
+  }
+
+  /**
+   * 单个条目的结果，去掉服务器本地文件路径
+   */
+  private toItemView(job: ExtractionJob, index: number) {
+    const result = job.results[index];
+    if (!result) {
+      return null;
+    }
+    const view: Partial<typeof result> = { ...result };
+    delete view.subtitleFiles;
+    delete view.audioPath;
+    return view;
+  }
+
+  private parseJobOptions(raw: unknown): JobOptions {
+    const options: JobOptions = {
+      // 服务模式下默认生成字幕并保留音频，便于通过产物接口下载
+      subtitleFormats: ["srt", "vtt"],
+      keepAudio: true,
+    };
+    if (!isRecord(raw)) {
+      return options;
+    }
+
+    if (Array.isArray(raw.subtitleFormats)) {
+      options.subtitleFormats = raw.subtitleFormats.filter(
+        (format: unknown): format is SubtitleFormat =>
+          format === "srt" || format === "vtt"
+      );
+    }
+    if (
+      raw.cache === "use" ||
+      raw.cache === "bypass" ||
+      raw.cache === "refresh"
+    ) {
+      options.cache = raw.cache;
+    }
+    if (typeof raw.keepAudio === "boolean") {
+      options.keepAudio = raw.keepAudio;
+    }
+    if (
+      typeof raw.maxRetries === "number" &&
+      Number.isInteger(raw.maxRetries) &&
+      raw.maxRetries > 0
+    ) {
+      options.maxRetries = raw.maxRetries;
+    }
+    if (isRecord(raw.recognition)) {
+      options.recognition = this.parseRecognitionOptions(raw.recognition);
+    }
+    if (typeof raw.hashtagHotwords === "boolean") {
+      options.hashtagHotwords = raw.hashtagHotwords;
+    }
+    if (typeof raw.analyze === "boolean") {
+      options.analyze = raw.analyze;
+    }
+    if (typeof raw.translateTo === "string") {
+      const translateTo = raw.translateTo.trim();
+      if (translateTo && !isLanguageTag(translateTo)) {
+        throw new HttpError(
+          400,
+          "INVALID_REQUEST",
+          `无效的目标语言: ${raw.translateTo}`
+        );
+      }
+      options.translateTo = translateTo;
+    }
+    if (
+      raw.translationSubtitles === "bilingual" ||
+      raw.translationSubtitles === "translated"
+    ) {
+      options.translationSubtitles = raw.translationSubtitles;
+    }
+    return options;
+  }
+
+  /**
+   * 只保留类型正确的识别参数
+   */
+  private parseRecognitionOptions(
+    raw: Record<string, unknown>
+  ): RecognitionOptions {
+    const recognition: RecognitionOptions = {};
+    if (typeof raw.language === "string" && raw.language) {
+      recognition.language = raw.language;
+    }
+    if (typeof raw.prompt === "string" && raw.prompt) {
+      recognition.prompt = raw.prompt;
+    }
+    if (Array.isArray(raw.hotwords)) {
+      recognition.hotwords = raw.hotwords.filter(
+        (word: unknown): word is string => typeof word === "string"
+      );
+    }
+    if (
+      typeof raw.temperature === "number" &&
+      raw.temperature >= 0 &&
+      raw.temperature <= 1
+    ) {
+      recognition.temperature = raw.temperature;
+    }
+    if (
+      raw.responseFormat === "json" ||
+      raw.responseFormat === "verbose_json"
+    ) {
+      recognition.responseFormat = raw.responseFormat;
+    }
+    return recognition;
+  }
+
+  private requireJob(id: string): ExtractionJob {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new HttpError(404, "NOT_FOUND", `任务不存在: ${id}`);
+    }
+    return job;
+  }
+
+  private requireString(value: unknown, field: string): string {
+    if (typeof value !== "string" || !value.trim()) {
+      throw new HttpError(400, "INVALID_REQUEST", `缺少参数: ${field}`);
+    }
+    return value;
+  }
+
+  /**
+   * 读取 JSON 请求体，请求体为空时返回空对象，不是 JSON 对象时返回 400
+   */
+  private readJson(
+    req: http.IncomingMessage
+  ): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.maxBodySize) {
+          reject(new HttpError(413, "PAYLOAD_TOO_LARGE", "请求体过大"));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on("end", () => {
+        const text = Buffer.concat(chunks).toString("utf-8");
+        if (!text) {
+          resolve({});
+          return;
+        }
+        let body: unknown;
+        try {
+          body = JSON.parse(text);
+        } catch {
+          reject(new HttpError(400, "INVALID_JSON", "请求体不是有效的 JSON"));
+          return;
+        }
+        if (!isRecord(body)) {
+          reject(new HttpError(400, "INVALID_JSON", "请求体必须是 JSON 对象"));
+          return;
+        }
+        resolve(body);
+      });
+      req.on("error", reject);
+    });
+  }
+
+  /**
+   * 校验访问令牌，未设置令牌时不校验
+   */
+  private authorize(req: http.IncomingMessage): void {
+    if (!this.authToken) {
+      return;
+    }
+    const header = req.headers.authorization || "";
+    const token = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+    const expected = Buffer.from(this.authToken);
+    const actual = Buffer.from(token);
+    if (
+      actual.length !== expected.length ||
+      !crypto.timingSafeEqual(actual, expected)
+    ) {
+      throw new HttpError(401, "UNAUTHORIZED", "缺少或无效的访问令牌");
+    }
+  }
+
+  /**
+   * 错误码对应的 HTTP 状态码：客户端输入和限制导致的错误为 4xx，
+   * 其余视为上游（抖音、识别 API）失败
+   */
+  private statusFor(error: Pick<DouyinErrorInfo, "code">): number {
+    switch (error.code) {
+      case "SHARE_LINK_NOT_FOUND":
+      case "INVALID_OPTIONS":
+        return 400;
+      case "LOGIN_REQUIRED":
+        return 403;
+      case "LIMIT_EXCEEDED":
+        return 413;
+      // 客户端断开或主动取消（沿用 nginx 的 499）
+      case "CANCELLED":
+        return 499;
+      default:
+        return 502;
+    }
+  }
+
+  private sendJson(
+    res: http.ServerResponse,
+    statusCode: number,
+    body: unknown
+  ): void {
+    const payload = JSON.stringify(body);
+    res.writeHead(statusCode, {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Length": Buffer.byteLength(payload),
+    });
+    res.end(payload);
+  }
+
+  private sendError(res: http.ServerResponse, error: unknown): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    if (error instanceof HttpError) {
+      this.sendJson(res, error.statusCode, {
+        status: "error",
+        error: { code: error.code, message: error.message },
+      });
+      return;
+    }
+
+    this.logger.error("HTTP 请求处理失败", {
+      error: error instanceof Error ? error.message : "未知错误",
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    this.sendJson(res, 500, {
+      status: "error",
+      error: { code: "INTERNAL_ERROR", message: "服务器内部错误" },
+    });
+  }
+
+  private static isLoopback(host: string): boolean {
+    return (
+      host === "localhost" ||
+      host === "::1" ||
+      /^127\.\d+\.\d+\.\d+$/.test(host)
+    );
+  }
+
+  private static getVersion(): string {
+    try {
+      const packagePath = path.join(__dirname, "../../package.json");
+      return JSON.parse(fs.readFileSync(packagePath, "utf-8")).version;
+    } catch {
+      return "unknown";
+    }
+  }
+}
@@ -0,0 +1,407 @@
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { DouyinService } from "../services/DouyinService";
+import {
+  BatchItemResult,
+  DouyinErrorInfo,
+  ExtractTextOptions,
+  Logger,
+  ProcessingProgress,
+} from "../types";
+import { DouyinError } from "../errors";
+import { FileUtils } from "../utils/fileUtils";
+import { SubtitleUtils } from "../utils/subtitleUtils";
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+/**
+ * 任务生成的可下载文件
+ */
+export interface JobArtifact {
+  /** 文件名，如 0.txt、0.srt、0.mp3（数字为条目位置） */
+  name: string;
+  type: "text" | "subtitle" | "audio";
+  /** 对应的条目位置 */
+  index: number;
+  path: string;
+  size: number;
+}
+
+/**
+ * 提交任务时可指定的提取选项
+ */
+export type JobOptions = Pick<
+  ExtractTextOptions,
+  | "subtitleFormats"
+  | "cache"
+  | "keepAudio"
+  | "maxRetries"
+  | "recognition"
+  | "hashtagHotwords"
+  | "analyze"
+  | "translateTo"
+  | "translationSubtitles"
+>;
+
+export interface ExtractionJob {
+  id: string;
+  status: JobStatus;
+  links: string[];
+  options: JobOptions;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  /** 每个条目最近一次的进度 */
+  progress: Array<ProcessingProgress | null>;
+  /** 每个条目的结果，未完成时为 null */
+  results: Array<BatchItemResult | null>;
+  artifacts: JobArtifact[];
+  error?: DouyinErrorInfo;
+}
+
+/**
+ * 任务事件，通过 "event" 事件以 (jobId, event) 的形式发出
+ */
+export type JobEvent =
+  | { type: "status"; status: JobStatus }
+  | { type: "progress"; index: number; progress: ProcessingProgress }
+  | { type: "item"; result: BatchItemResult }
+  | { type: "done"; status: JobStatus };
+
+export interface JobManagerOptions {
+  /** 任务产物目录，每个任务一个子目录，默认: ./artifacts */
+  artifactDir?: string;
+  /** 同时运行的任务数，默认: 1 */
+  maxConcurrentJobs?: number;
+  /** 已结束任务的保留时间（毫秒），过期后删除任务和产物，默认: 1 小时 */
+  jobTtl?: number;
+  /** 最多保留的已结束任务数，超出时删除最早结束的任务，默认: 100 */
+  maxFinishedJobs?: number;
+  /** 日志输出，默认使用服务的日志 */
+  logger?: Logger;
+}
+
+/**
+ * 内存中的提取任务队列，负责运行任务、收集产物并广播进度
+ */
+export class JobManager extends EventEmitter {
+  private readonly service: DouyinService;
+  private readonly artifactDir: string;
+  private readonly maxConcurrentJobs: number;
+  private readonly jobTtl: number;
+  private readonly maxFinishedJobs: number;
+  private readonly logger: Logger;
+  private readonly jobs = new Map<string, ExtractionJob>();
+  private readonly queue: string[] = [];
+  private readonly controllers = new Map<string, AbortController>();
+  private readonly expiryTimers = new Map<string, NodeJS.Timeout>();
+  private runningCount = 0;
+
+  constructor(service: DouyinService, options: JobManagerOptions = {}) {
+    super();
+    this.service = service;
+    this.artifactDir =
+      options.artifactDir || path.join(process.cwd(), "artifacts");
+    this.maxConcurrentJobs = Math.max(1, options.maxConcurrentJobs ?? 1);
+    this.jobTtl = options.jobTtl ?? 60 * 60 * 1000;
+    this.maxFinishedJobs = Math.max(0, options.maxFinishedJobs ?? 100);
+    this.logger = options.logger ?? service.getLogger();
+  }
+
+  /**
+   * 提交任务，立即返回排队中的任务
+   */
+  submit(links: string[], options: JobOptions = {}): ExtractionJob {
+    const job: ExtractionJob = {
+      id: uuidv4(),
+      status: "queued",
+      links,
+      options,
+      createdAt: Date.now(),
+      progress: links.map(() => null),
+      results: links.map(() => null),
+      artifacts: [],
+    };
+
+    this.jobs.set(job.id, job);
+    this.controllers.set(job.id, new AbortController());
+    this.queue.push(job.id);
+    this.logger.info("提交提取任务", {
+      jobId: job.id,
+      linkCount: links.length,
+    });
+
+    this.drainQueue();
+    return job;
+  }
+
+  get(id: string): ExtractionJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  list(): ExtractionJob[] {
+    return Array.from(this.jobs.values());
+  }
+
+  /**
+   * 等待任务结束（完成或失败）
+   */
+  wait(id: string): Promise<ExtractionJob> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return Promise.reject(new Error(`任务不存在: ${id}`));
+    }
+    if (JobManager.isFinished(job.status)) {
+      return Promise.resolve(job);
+    }
+
+    return new Promise((resolve) => {
+      const listener = (jobId: string, event: JobEvent) => {
+        if (jobId === id && event.type === "done") {
+          this.off("event", listener);
+          resolve(job);
+        }
+      };
+      this.on("event", listener);
+    });
+  }
+
+  /**
+   * 取消任务：排队中的任务直接结束，运行中的任务中止正在进行的请求和进程。
+   * 任务不存在或已结束时返回 false
+   */
+  cancel(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || JobManager.isFinished(job.status)) {
+      return false;
+    }
+
+    this.logger.info("取消提取任务", { jobId: id, status: job.status });
+    this.controllers.get(id)?.abort();
+
+    if (job.status === "queued") {
+      this.queue.splice(this.queue.indexOf(id), 1);
+      this.finish(job, "cancelled");
+    }
+    return true;
+  }
+
+  static isFinished(status: JobStatus): boolean {
+    return (
+      status === "completed" || status === "failed" || status === "cancelled"
+    );
+  }
+
+  getArtifact(id: string, name: string): JobArtifact | undefined {
+    return this.jobs.get(id)?.artifacts.find((item) => item.name === name);
+  }
+
+  private drainQueue(): void {
+    while (
+      this.runningCount < this.maxConcurrentJobs &&
+      this.queue.length > 0
+    ) {
+      const job = this.jobs.get(this.queue.shift() as string);
+      if (!job) continue;
+
+      this.runningCount++;
+      this.run(job).finally(() => {
+        this.runningCount--;
+        this.drainQueue();
+      });
+    }
+  }
+
+  private async run(job: ExtractionJob): Promise<void> {
+    job.status = "running";
+    job.startedAt = Date.now();
+    this.emitEvent(job.id, { type: "status", status: job.status });
+
+    const signal = this.controllers.get(job.id)?.signal;
+    let status: JobStatus;
+    try {
+      await this.service.extractTextBatch(job.links, {
+        ...job.options,
+        // 直接输出到任务目录，并发任务处理同一视频时文件互不覆盖
+        outputDir: path.join(this.artifactDir, job.id),
+        signal,
+        correlationId: job.id,
+        onItemProgress: (index, progress) => {
+          job.progress[index] = progress;
+          this.emitEvent(job.id, { type: "progress", index, progress });
+        },
+        onItemComplete: (result) => {
+          job.results[result.index] = result;
+          this.collectArtifacts(job, result);
+          this.emitEvent(job.id, { type: "item", result });
+        },
+      });
+      status = signal?.aborted ? "cancelled" : "completed";
+    } catch (error) {
+      status = "failed";
+      job.error = DouyinError.from(error, "parsing").toJSON();
+      this.logger.error("提取任务失败", { jobId: job.id, error: job.error });
+    }
+
+    this.finish(job, status);
+  }
+
+  private finish(job: ExtractionJob, status: JobStatus): void {
+    job.status = status;
+    job.finishedAt = Date.now();
+    this.controllers.delete(job.id);
+    this.logger.info("提取任务结束", {
+      jobId: job.id,
+      status: job.status,
+      artifactCount: job.artifacts.length,
+      processingTime: `${job.finishedAt - (job.startedAt || job.createdAt)}ms`,
+    });
+    this.emitEvent(job.id, { type: "done", status: job.status });
+
+    const timer = setTimeout(() => this.remove(job.id), this.jobTtl);
+    // 不因等待过期而阻止进程退出
+    timer.unref();
+    this.expiryTimers.set(job.id, timer);
+    this.evictFinishedJobs();
+  }
+
+  /**
+   * 已结束任务超出数量上限时，删除最早结束的任务
+   */
+  private evictFinishedJobs(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter((job) => JobManager.isFinished(job.status))
+      .sort((a, b) => (a.finishedAt || 0) - (b.finishedAt || 0));
+    finished
+      .slice(0, Math.max(0, finished.length - this.maxFinishedJobs))
+      .forEach((job) => this.remove(job.id));
+  }
+
+  /**
+   * 删除已结束的任务及其产物目录
+   */
+  private remove(id: string): void {
+    const job = this.jobs.get(id);
+    if (!job || !JobManager.isFinished(job.status)) {
+      return;
+    }
+
+    clearTimeout(this.expiryTimers.get(id));
+    this.expiryTimers.delete(id);
+    this.jobs.delete(id);
+    try {
+      fs.rmSync(path.join(this.artifactDir, id), {
+        recursive: true,
+        force: true,
+      });
+    } catch (error) {
+      this.logger.warn("删除任务产物失败", {
+        jobId: id,
+        error: error instanceof Error ? error.message : "未知错误",
+      });
+    }
+    this.logger.debug("删除已结束的任务", { jobId: id });
+  }
+
+  /**
+   * 将条目的文本、字幕和音频移入任务目录
+   */
+  private collectArtifacts(job: ExtractionJob, result: BatchItemResult): void {
+    if (result.status !== "success") {
+      return;
+    }
+
+    const jobDir = path.join(this.artifactDir, job.id);
+    FileUtils.ensureDir(jobDir);
+
+    const addArtifact = (
+      name: string,
+      type: JobArtifact["type"],
+      filePath: string
+    ) => {
+      job.artifacts.push({
+        name,
+        type,
+        index: result.index,
+        path: filePath,
+        size: FileUtils.getFileSize(filePath),
+      });
+    };
+
+    try {
+      const textPath = path.join(jobDir, `${result.index}.txt`);
+      fs.writeFileSync(textPath, result.extractedText || "", "utf-8");
+      addArtifact(path.basename(textPath), "text", textPath);
+
+      // 重复条目与首次出现的条目共用同一组文件，只收集一次
+      if (result.duplicateOf !== undefined) {
+        return;
+      }
+
+      Object.entries(result.subtitleFiles || {}).forEach(([format, file]) => {
+        if (!file || !fs.existsSync(file)) return;
+        const target = path.join(jobDir, `${result.index}.${format}`);
+        FileUtils.moveFile(file, target);
+        addArtifact(path.basename(target), "subtitle", target);
+      });
+
+      const translation = result.translation;
+      if (translation) {
+        // 译文：有分段时为原文和译文对照的文本
+        const translationPath = path.join(
+          jobDir,
+          `${result.index}.${translation.targetLanguage}.txt`
+        );
+        fs.writeFileSync(
+          translationPath,
+          translation.segments && result.segments
+            ? SubtitleUtils.toBilingualText(
+                result.segments.filter((segment) => segment.text.trim()),
+                translation.segments
+              )
+            : translation.text,
+          "utf-8"
+        );
+        addArtifact(path.basename(translationPath), "text", translationPath);
+
+        Object.entries(translation.subtitleFiles || {}).forEach(
+          ([format, file]) => {
+            if (!file || !fs.existsSync(file)) return;
+            const target = path.join(
+              jobDir,
+              `${result.index}.${translation.targetLanguage}.${format}`
+            );
+            FileUtils.moveFile(file, target);
+            addArtifact(path.basename(target), "subtitle", target);
+          }
+        );
+      }
+
+      if (result.audioPath && fs.existsSync(result.audioPath)) {
+        const target = path.join(
+          jobDir,
+          `${result.index}${path.extname(result.audioPath)}`
+        );
+        FileUtils.moveFile(result.audioPath, target);
+        addArtifact(path.basename(target), "audio", target);
+      }
+    } catch (error) {
+      this.logger.warn("收集任务产物失败", {
+        jobId: job.id,
+        index: result.index,
+        error: error instanceof Error ? error.message : "未知错误",
+      });
+    }
+  }
+
+  private emitEvent(jobId: string, event: JobEvent): void {
+    this.emit("event", jobId, event);
+  }
+}
@@ -0,0 +1,10 @@
+export { DouyinServer, DouyinServerOptions } from "./DouyinServer";
+export {
+  JobManager,
+  JobManagerOptions,
+  JobStatus,
+  JobArtifact,
+  JobOptions,
+  JobEvent,
+  ExtractionJob,
+} from "./JobManager";
@@ -0,0 +1,97 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DouyinService } from "./DouyinService";
+import { FixtureNotFoundError } from "../errors";
+import { Logger } from "../types";
+
+const FIXTURES_DIR = path.join(__dirname, "../../test/fixtures");
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * 基于录制数据创建服务：不访问网络、不调用识别接口，
+ * 关闭分片以免调用 ffprobe
+ */
+function createReplayService(fixture: string, workDir: string): DouyinService {
+  return new DouyinService({
+    fixtures: { mode: "replay", dir: path.join(FIXTURES_DIR, fixture) },
+    downloadDir: path.join(workDir, "downloads"),
+    tempDir: path.join(workDir, "temp"),
+    chunking: { enabled: false },
+    logger: silentLogger,
+  });
+}
+
+describe("DouyinService（回放录制数据）", () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "douyin-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("从分享文本解析视频作品信息", async () => {
+    const service = createReplayService("video-share", workDir);
+
+    const videoInfo = await service.parseShareUrl(
+      "3.56 复制打开抖音，看看【测试作者的作品】周末去爬山 https://v.douyin.com/iRvTest1/ 06/12 abc:/"
+    );
+
+    expect(videoInfo).toMatchObject({
+      videoId: "7300000000000000001",
+      contentType: "video",
+      desc: "周末去爬山 #户外 #徒步",
+      extractor: "router-data",
+      duration: 15.3,
+      // 去掉水印标记后的播放地址
+      downloadUrl:
+        "https://aweme.snssdk.com/aweme/v1/play/?video_id=v0300fg10000test&ratio=720p",
+    });
+    expect(videoInfo.hashtags).toEqual(["户外", "徒步"]);
+    expect(videoInfo.author?.nickname).toBe("测试作者");
+  });
+
+  it("识别图集作品的背景音乐", async () => {
+    const service = createReplayService("image-post", workDir);
+    const stages: string[] = [];
+
+    const result = await service.extractText(
+      "https://v.douyin.com/iRvTest2/",
+      (progress) => stages.push(progress.stage)
+    );
+
+    expect(result.videoInfo).toMatchObject({
+      videoId: "7300000000000000002",
+      contentType: "images",
+      desc: "今日份早餐 #美食",
+    });
+    expect(result.videoInfo.images?.map((image) => image.url)).toEqual([
+      "https://p3-sign.douyinpic.com/tos-cn-i/image-1.webp",
+      "https://p3-sign.douyinpic.com/tos-cn-i/image-2.webp",
+    ]);
+    expect(result.extractedText).toBe("早上好，今天做了一份简单的早餐。");
+    expect(result.language).toBe("zh");
+    expect(result.fromCache).toBeFalsy();
+    expect(stages).toEqual(
+      expect.arrayContaining(["parsing", "downloading", "speech_recognition"])
+    );
+    expect(stages[stages.length - 1]).toBe("completed");
+  });
+
+  it("录制数据中没有匹配的请求时报错", async () => {
+    const service = createReplayService("video-share", workDir);
+
+    await expect(
+      service.parseShareUrl("https://v.douyin.com/iUnknown/", 1)
+    ).rejects.toBeInstanceOf(FixtureNotFoundError);
+  });
+});
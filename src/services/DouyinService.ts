@@ -1,26 +1,108 @@
 import axios from "axios";
+import { AsyncLocalStorage } from "async_hooks";
 import * as fs from "fs";
 import * as path from "path";
 import ffmpeg from "fluent-ffmpeg";
-import FormData from "form-data";
+import { v4 as uuidv4 } from "uuid";
 import {
+  AudioChunkingOptions,
+  AudioProfile,
+  AudioProfileName,
+  BatchExtractOptions,
+  BatchItemResult,
   DouyinVideoInfo,
-  SpeechApiResponse,
   ProcessingProgress,
   DouyinServiceOptions,
+  ExtractionEvent,
+  ExtractionEventMap,
+  ExtractionEventPayload,
+  ExtractTextOptions,
+  ExtractTextResult,
+  ImagePostDownloadResult,
+  Logger,
+  PageDataExtractor,
+  ProcessingStage,
+  RecognitionOptions,
+  SpeechRecognizer,
+  StageWeights,
+  TranscribeOptions,
+  Transcript,
+  TranscriptAnalysis,
+  TranscriptAnalyzer,
+  TranscriptProcessor,
+  TranscriptCache,
+  TranscriptSegment,
+  TranscriptTranslation,
+  Translator,
+  WorkspaceSweepResult,
 } from "../types";
+import {
+  OpenAICompatibleRecognizer,
+  OpenAIRecognizer,
+  SiliconFlowRecognizer,
+  SILICONFLOW_DEFAULT_MODEL,
+  SILICONFLOW_TRANSCRIPTIONS_URL,
+} from "./recognizers";
+import { Downloader } from "./Downloader";
+import {
+  AnalysisError,
+  AudioExtractionError,
+  CancelledError,
+  DouyinError,
+  DownloadError,
+  FixtureNotFoundError,
+  InvalidOptionsError,
+  LimitExceededError,
+  LoginRequiredError,
+  NetworkError,
+  PageDataParseError,
+  ShareLinkNotFoundError,
+  SpeechRecognitionError,
+  TranslationError,
+} from "../errors";
+import { PageDataExtractorRegistry } from "../extractors";
+import { buildTranscriptCacheKey, FileTranscriptCache } from "../cache";
+import { HttpClient } from "../http";
+import { FixtureRecognizer } from "../fixtures";
+import { AsyncUtils } from "../utils/asyncUtils";
+import { AudioChunkRange, AudioUtils } from "../utils/audioUtils";
 import { FileUtils } from "../utils/fileUtils";
-import logger from "../utils/logger";
-
-export class DouyinService {
-  private readonly userAgent =
-    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) EdgiOS/121.0.2277.107 Version/17.0 Mobile/15E148 Safari/604.1";
-  private readonly speechApiKey: string;
-  private readonly speechApiBaseUrl: string;
-  private readonly speechModel: string;
+import { SubtitleUtils } from "../utils/subtitleUtils";
+import defaultLogger, { LogUtils } from "../utils/logger";
+import { Workspace, WorkspaceManager } from "../workspace";
+import { ProgressTracker, TypedEventEmitter } from "../events";
+import { TranscriptPipeline } from "../postprocessors";
+import { ChatCompletionClient, ChatTranscriptAnalyzer } from "../analysis";
+import { ChatTranslator, isLanguageTag } from "../translation";
+
+export class DouyinService extends TypedEventEmitter<ExtractionEventMap> {
+  private readonly logger: Logger;
+  private readonly http: HttpClient;
+  private readonly speechRecognizer: SpeechRecognizer;
   private readonly autoCleanTempFiles: boolean;
   private readonly downloadDir: string;
   private readonly tempDir: string;
+  private readonly workspaces: WorkspaceManager;
+  private readonly chunking: Required<AudioChunkingOptions>;
+  private readonly downloader: Downloader;
+  private readonly pageDataExtractors: PageDataExtractorRegistry;
+  private readonly transcriptCache: TranscriptCache | null;
+  private readonly transcriptCacheTtl: number;
+  private readonly maxFileSize?: number;
+  private readonly maxDuration?: number;
+  private readonly stageWeights: StageWeights;
+  private readonly streaming: boolean;
+  private readonly audioProfile: AudioProfile;
+  private readonly postProcessors: TranscriptPipeline;
+  private readonly recognition: RecognitionOptions;
+  private readonly hashtagHotwords: boolean;
+  private readonly transcriptAnalyzer: TranscriptAnalyzer | null;
+  private readonly translator: Translator | null;
+  private readonly translateTo: string;
+  /** 当前处理的事件出口，深层步骤发出的事件经由它附加到所属的处理 */
+  private readonly eventScope = new AsyncLocalStorage<
+    (event: ExtractionEventPayload) => void
+  >();
 
   /**
    * 创建 DouyinService 实例
@@ -41,37 +123,199 @@ export class DouyinService {
    *   downloadDir: "./custom-downloads",
    *   tempDir: "./custom-temp"
    * });
+   *
+   * // 通过代理访问，并携带登录 cookie
+   * const service = new DouyinService({
+   *   speechApiKey: "your-api-key",
+   *   http: {
+   *     proxy: "http://proxy.corp:8080",
+   *     cookiesFile: "./cookies.txt"
+   *   }
+   * });
+   *
+   * // 自定义语音识别提供方（如本地离线识别）
+   * const service = new DouyinService({
+   *   speechRecognizer: new LocalWhisperRecognizer({
+   *     model: "./models/ggml-base.bin"
+   *   })
+   * });
+   *
+   * // 回放录制数据，不访问网络
+   * const service = new DouyinService({
+   *   fixtures: { mode: "replay", dir: "./fixtures/video-1" }
+   * });
+   *
+   * // 监听处理事件
+   * service.on("download_progress", (event) => {
+   *   console.log(event.downloaded, event.total);
+   * });
    * ```
    */
   constructor(options: DouyinServiceOptions) {
+    super();
     // 设置默认值
     const {
       speechApiKey,
-      speechApiBaseUrl = "https://api.siliconflow.cn/v1/audio/transcriptions",
-      speechModel = "FunAudioLLM/SenseVoiceSmall",
+      speechApiBaseUrl = SILICONFLOW_TRANSCRIPTIONS_URL,
+      speechModel = SILICONFLOW_DEFAULT_MODEL,
+      speechRecognizer,
       autoCleanTempFiles = true,
       downloadDir = path.join(process.cwd(), "downloads"),
       tempDir = path.join(process.cwd(), "temp"),
+      workspace = {},
+      chunking = {},
+      download = {},
+      http = {},
+      fixtures,
+      pageDataExtractors = [],
+      transcriptCache,
+      transcriptCacheTtl = 7 * 24 * 60 * 60 * 1000,
+      maxFileSize,
+      maxDuration,
+      stageWeights = {},
+      streaming = false,
+      audioProfile = "original",
+      postProcessors,
+      recognition = {},
+      hashtagHotwords = false,
+      transcriptAnalyzer,
+      translator,
+      translateTo = "",
     } = options;
 
-    if (!speechApiKey) {
+    this.logger = DouyinService.wrapLogger(options);
+    this.http = new HttpClient({ fixtures, logger: this.logger, ...http });
+
+    let recognizer = speechRecognizer;
+    if (!recognizer && speechApiKey) {
+      // SiliconFlow 与 createWithSiliconFlow 使用同一个识别器，
+      // 请求参数和缓存 key 中的提供方名称保持一致
+      recognizer =
+        speechApiBaseUrl === SILICONFLOW_TRANSCRIPTIONS_URL
+          ? new SiliconFlowRecognizer({
+              apiKey: speechApiKey,
+              model: speechModel,
+              proxy: http.proxy,
+              logger: this.logger,
+            })
+          : new OpenAICompatibleRecognizer({
+              apiKey: speechApiKey,
+              baseUrl: speechApiBaseUrl,
+              model: speechModel,
+              proxy: http.proxy,
+              logger: this.logger,
+            });
+    }
+    // 回放模式不调用识别器，无需 speechApiKey
+    if (!recognizer && fixtures?.mode !== "replay") {
       throw new Error("speechApiKey is required");
     }
+    this.speechRecognizer = fixtures
+      ? new FixtureRecognizer(fixtures, recognizer, this.logger)
+      : (recognizer as SpeechRecognizer);
 
-    this.speechApiKey = speechApiKey;
-    this.speechApiBaseUrl = speechApiBaseUrl;
-    this.speechModel = speechModel;
     this.autoCleanTempFiles = autoCleanTempFiles;
     this.downloadDir = downloadDir;
     this.tempDir = tempDir;
+    this.workspaces = new WorkspaceManager({
+      cleanup: autoCleanTempFiles ? "always" : "never",
+      ...workspace,
+      rootDir: tempDir,
+      logger: this.logger,
+    });
+    this.chunking = {
+      enabled: chunking.enabled ?? true,
+      maxChunkDuration: chunking.maxChunkDuration ?? 600,
+      maxChunkSize: chunking.maxChunkSize ?? 20 * 1024 * 1024,
+      concurrency: chunking.concurrency ?? 2,
+      silenceThreshold: chunking.silenceThreshold ?? "-35dB",
+      minSilenceDuration: chunking.minSilenceDuration ?? 0.5,
+    };
+    this.downloader = new Downloader({
+      partDir: path.join(tempDir, "partial"),
+      ...download,
+      httpClient: this.http,
+      logger: this.logger,
+    });
+    if (transcriptCache !== undefined) {
+      this.transcriptCache = transcriptCache || null;
+    } else {
+      // 录制/回放时命中缓存会跳过下载和识别，默认不使用缓存
+      this.transcriptCache = fixtures
+        ? null
+        : new FileTranscriptCache(undefined, this.logger);
+    }
+    this.transcriptCacheTtl = transcriptCacheTtl;
+    this.maxFileSize =
+      maxFileSize !== undefined
+        ? FileUtils.parseFileSize(maxFileSize)
+        : undefined;
+    this.maxDuration = maxDuration;
+    this.stageWeights = stageWeights;
+    this.streaming = streaming;
+    this.audioProfile = AudioUtils.resolveProfile(audioProfile);
+    this.postProcessors = new TranscriptPipeline(postProcessors, this.logger);
+    this.recognition = recognition;
+    this.hashtagHotwords = hashtagHotwords;
+    this.transcriptAnalyzer = transcriptAnalyzer || null;
+    if (translateTo && !translator) {
+      throw new Error("设置 translateTo 时需要提供 translator");
+    }
+    if (translateTo && !isLanguageTag(translateTo)) {
+      throw new Error(`无效的目标语言: ${translateTo}`);
+    }
+    this.translator = translator || null;
+    this.translateTo = translateTo;
+    this.pageDataExtractors = new PageDataExtractorRegistry(
+      undefined,
+      this.logger
+    );
+    // 保持传入顺序，整体放在内置策略之前
+    [...pageDataExtractors].reverse().forEach((extractor) => {
+      this.pageDataExtractors.register(extractor);
+    });
 
-    logger.info("DouyinService initialized", {
-      speechApiBaseUrl: this.speechApiBaseUrl,
-      speechModel: this.speechModel,
-      hasApiKey: !!this.speechApiKey,
+    this.logger.info("DouyinService initialized", {
+      speechProvider: this.speechRecognizer.name,
+      speechModel: this.speechRecognizer.model,
       autoCleanTempFiles: this.autoCleanTempFiles,
       downloadDir: this.downloadDir,
       tempDir: this.tempDir,
+      workspace,
+      streaming: this.streaming,
+      audioProfile: this.audioProfile,
+      postProcessors: this.postProcessors.list(),
+      recognition: this.recognition,
+      hashtagHotwords: this.hashtagHotwords,
+      transcriptAnalyzer: this.transcriptAnalyzer
+        ? `${this.transcriptAnalyzer.name}/${this.transcriptAnalyzer.model}`
+        : false,
+      translator: this.translator
+        ? `${this.translator.name}/${this.translator.model}`
+        : false,
+      translateTo: this.translateTo || false,
+      chunking: this.chunking,
+      pageDataExtractors: this.pageDataExtractors.list(),
+      transcriptCache: this.transcriptCache?.constructor.name || false,
+      transcriptCacheTtl: this.transcriptCacheTtl,
+      maxFileSize: this.maxFileSize,
+      maxDuration: this.maxDuration,
+    });
+  }
+
+  /**
+   * 注册页面数据提取策略，用于在抖音页面结构变化时无需修改服务即可适配
+   * @param extractor 提取策略，同名策略会被替换
+   * @param prepend 是否优先于已有策略尝试，默认: true
+   */
+  registerPageDataExtractor(
+    extractor: PageDataExtractor,
+    prepend: boolean = true
+  ): void {
+    this.pageDataExtractors.register(extractor, prepend);
+    this.logger.info("注册页面数据提取策略", {
+      extractor: extractor.name,
+      extractors: this.pageDataExtractors.list(),
     });
   }
 
@@ -88,10 +332,20 @@ export class DouyinService {
     return new DouyinService({ speechApiKey });
   }
 
+  /**
+   * 与构造函数相同的日志包装，工厂方法创建的识别器使用
+   */
+  private static wrapLogger(options: DouyinServiceOptions): Logger {
+    return LogUtils.wrap(options.logger ?? defaultLogger, {
+      redact: options.redactLogs,
+    });
+  }
+
   /**
    * 创建 DouyinService 实例（使用 SiliconFlow API）
    * @param speechApiKey 语音识别 API 密钥
    * @param speechModel 可选：语音识别模型
+   * @param options 可选：其他构造选项，识别请求同样使用其中的 logger 和 http.proxy
    * @returns DouyinService 实例
    * @example
    * ```typescript
@@ -102,12 +356,17 @@ export class DouyinService {
    */
   static createWithSiliconFlow(
     speechApiKey: string,
-    speechModel: string = "FunAudioLLM/SenseVoiceSmall"
+    speechModel: string = SILICONFLOW_DEFAULT_MODEL,
+    options: Omit<DouyinServiceOptions, "speechApiKey" | "speechRecognizer"> = {}
   ): DouyinService {
     return new DouyinService({
-      speechApiKey,
-      speechApiBaseUrl: "https://api.siliconflow.cn/v1/audio/transcriptions",
-      speechModel,
+      ...options,
+      speechRecognizer: new SiliconFlowRecognizer({
+        apiKey: speechApiKey,
+        model: speechModel,
+        proxy: options.http?.proxy,
+        logger: DouyinService.wrapLogger(options),
+      }),
     });
   }
 
@@ -115,6 +374,7 @@ export class DouyinService {
    * 创建 DouyinService 实例（使用 OpenAI API）
    * @param speechApiKey OpenAI API 密钥
    * @param speechModel 可选：语音识别模型
+   * @param options 可选：其他构造选项，识别请求同样使用其中的 logger 和 http.proxy
    * @returns DouyinService 实例
    * @example
    * ```typescript
@@ -125,12 +385,17 @@ export class DouyinService {
    */
   static createWithOpenAI(
     speechApiKey: string,
-    speechModel: string = "whisper-1"
+    speechModel: string = "whisper-1",
+    options: Omit<DouyinServiceOptions, "speechApiKey" | "speechRecognizer"> = {}
   ): DouyinService {
     return new DouyinService({
-      speechApiKey,
-      speechApiBaseUrl: "https://api.openai.com/v1/audio/transcriptions",
-      speechModel,
+      ...options,
+      speechRecognizer: new OpenAIRecognizer({
+        apiKey: speechApiKey,
+        model: speechModel,
+        proxy: options.http?.proxy,
+        logger: DouyinService.wrapLogger(options),
+      }),
     });
   }
 
@@ -144,11 +409,47 @@ export class DouyinService {
   ): DouyinService {
     const defaultConfig = {
       speechApiKey,
-      speechApiBaseUrl: process.env.SPEECH_API_BASE_URL || "https://api.siliconflow.cn/v1/audio/transcriptions",
-      speechModel: process.env.SPEECH_MODEL || "FunAudioLLM/SenseVoiceSmall",
+      speechApiBaseUrl: process.env.SPEECH_API_BASE_URL || SILICONFLOW_TRANSCRIPTIONS_URL,
+      speechModel: process.env.SPEECH_MODEL || SILICONFLOW_DEFAULT_MODEL,
+      audioProfile:
+        (process.env.AUDIO_PROFILE as AudioProfileName | undefined) || undefined,
       autoCleanTempFiles: process.env.AUTO_CLEAN_TEMP_FILES !== "false",
       downloadDir: process.env.DOWNLOAD_DIR || path.join(process.cwd(), "downloads"),
       tempDir: process.env.TEMP_DIR || path.join(process.cwd(), "temp"),
+      workspace: {
+        maxTotalSize: process.env.TEMP_MAX_TOTAL_SIZE || undefined,
+      },
+      maxFileSize: process.env.MAX_FILE_SIZE || undefined,
+      maxDuration: process.env.MAX_DURATION
+        ? Number(process.env.MAX_DURATION)
+        : undefined,
+      http: {
+        proxy: process.env.PROXY_URL || undefined,
+        cookiesFile: process.env.COOKIES_FILE || undefined,
+      },
+      transcriptAnalyzer: process.env.ANALYSIS_API_KEY
+        ? new ChatTranscriptAnalyzer({
+            client: new ChatCompletionClient({
+              apiKey: process.env.ANALYSIS_API_KEY,
+              baseUrl: process.env.ANALYSIS_API_BASE_URL || undefined,
+              model: process.env.ANALYSIS_MODEL || undefined,
+              proxy: process.env.PROXY_URL || undefined,
+            }),
+          })
+        : undefined,
+      translator: process.env.TRANSLATION_API_KEY
+        ? new ChatTranslator({
+            client: new ChatCompletionClient({
+              apiKey: process.env.TRANSLATION_API_KEY,
+              baseUrl: process.env.TRANSLATION_API_BASE_URL || undefined,
+              model: process.env.TRANSLATION_MODEL || undefined,
+              proxy: process.env.PROXY_URL || undefined,
+            }),
+          })
+        : undefined,
+      translateTo: process.env.TRANSLATION_API_KEY
+        ? process.env.TRANSLATE_TO || undefined
+        : undefined,
       ...overrides,
     };
     
@@ -157,10 +458,16 @@ export class DouyinService {
 
   /**
    * 从分享链接解析抖音视频信息
+   * @param signal 取消信号，触发后中止请求和重试等待
    */
-  async parseShareUrl(shareText: string, maxRetries: number = 3): Promise<DouyinVideoInfo> {
+  async parseShareUrl(
+    shareText: string,
+    maxRetries: number = 3,
+    signal?: AbortSignal
+  ): Promise<DouyinVideoInfo> {
     const startTime = Date.now();
-    logger.info("开始解析抖音分享链接", { shareText, maxRetries });
+    this.logger.info("开始解析抖音分享链接", { shareText, maxRetries });
+    AsyncUtils.throwIfAborted(signal, "parsing");
 
     // 提取分享链接
     const urlRegex =
@@ -168,29 +475,37 @@ export class DouyinService {
     const urls = shareText.match(urlRegex);
 
     if (!urls || urls.length === 0) {
-      logger.error("未找到有效的分享链接", { shareText });
-      throw new Error("未找到有效的分享链接");
+      this.logger.error("未找到有效的分享链接", { shareText });
+      throw new ShareLinkNotFoundError();
     }
 
     const shareUrl = urls[0];
-    logger.info("提取到分享链接", { shareUrl });
+    this.logger.info("提取到分享链接", { shareUrl });
 
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      // 每次尝试换一个 User-Agent，遇到登录/验证页时重试更容易成功
+      const userAgent = this.http.nextUserAgent();
       try {
-        logger.debug(`尝试解析 (${attempt}/${maxRetries})`, { shareUrl, attempt, maxRetries });
+        this.logger.debug(`尝试解析 (${attempt}/${maxRetries})`, {
+          shareUrl,
+          attempt,
+          maxRetries,
+          userAgent,
+        });
 
         // 获取重定向后的真实URL
-        logger.debug("获取重定向后的真实URL", { shareUrl });
-        const shareResponse = await axios.get(shareUrl, {
-          headers: { "User-Agent": this.userAgent },
+        this.logger.debug("获取重定向后的真实URL", { shareUrl });
+        const shareResponse = await this.http.axios.get(shareUrl, {
+          headers: { "User-Agent": userAgent },
           maxRedirects: 5,
           timeout: 10000, // 10秒超时
+          signal,
         });
 
         // 添加更详细的重定向分析
-        logger.debug("重定向响应详情", {
+        this.logger.debug("重定向响应详情", {
           status: shareResponse.status,
           statusText: shareResponse.statusText,
           finalUrl: shareResponse.request.res.responseUrl,
@@ -209,7 +524,7 @@ export class DouyinService {
           .split("/")
           .pop();
 
-        logger.info("提取到视频ID", {
+        this.logger.info("提取到视频ID", {
           videoId,
           finalUrl: shareResponse.request.res.responseUrl,
         });
@@ -217,10 +532,10 @@ export class DouyinService {
         const pageUrl = `https://www.iesdouyin.com/share/video/${videoId}`;
 
         // 获取视频页面内容
-        logger.debug("获取视频页面内容", { pageUrl, attempt });
-        const pageResponse = await axios.get(pageUrl, {
+        this.logger.debug("获取视频页面内容", { pageUrl, attempt });
+        const pageResponse = await this.http.axios.get(pageUrl, {
           headers: { 
-            "User-Agent": this.userAgent,
+            "User-Agent": userAgent,
             // 尝试添加更多常见的浏览器请求头
             "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
             "Accept-Language": "zh-CN,zh;q=0.9,en;q=0.8",
@@ -230,10 +545,11 @@ export class DouyinService {
             "Upgrade-Insecure-Requests": "1"
           },
           timeout: 15000, // 15秒超时
+          signal,
         });
 
         // 添加详细的页面响应分析
-        logger.debug("页面响应详情", {
+        this.logger.debug("页面响应详情", {
           status: pageResponse.status,
           statusText: pageResponse.statusText,
           contentLength: pageResponse.data.length,
@@ -250,7 +566,7 @@ export class DouyinService {
         const htmlContent = pageResponse.data;
         const htmlPreview = htmlContent.substring(0, 500);
         
-        logger.debug("HTML内容分析", {
+        this.logger.debug("HTML内容分析", {
           htmlLength: htmlContent.length,
           htmlPreview: htmlPreview,
           containsRouterData: htmlContent.includes('window._ROUTER_DATA'),
@@ -268,36 +584,51 @@ export class DouyinService {
                          htmlContent.includes('验证') || htmlContent.includes('captcha');
         
         if (needsAuth) {
-          logger.warn("页面可能要求登录或验证", {
+          this.logger.warn("页面可能要求登录或验证", {
             videoId,
             pageUrl,
             containsLogin: htmlContent.includes('登录'),
             containsCaptcha: htmlContent.includes('captcha'),
             containsVerify: htmlContent.includes('验证'),
+            hasCookies: this.http.cookieJar.getCookies().length > 0,
             attempt,
             willRetry: attempt < maxRetries
           });
+          this.emitEvent({
+            type: "warning",
+            code: "LOGIN_PAGE",
+            message: "页面可能要求登录或验证",
+          });
           
           // 如果检测到需要验证且还有重试次数，则等待后重试
           if (attempt < maxRetries) {
             const retryDelay = Math.min(1000 * Math.pow(2, attempt - 1), 5000); // 指数退避，最大5秒
-            logger.info(`等待 ${retryDelay}ms 后重试`, { attempt, retryDelay });
-            await new Promise(resolve => setTimeout(resolve, retryDelay));
+            this.logger.info(`等待 ${retryDelay}ms 后重试`, { attempt, retryDelay });
+            this.emitEvent({
+              type: "retry",
+              stage: "parsing",
+              attempt: attempt + 1,
+              maxAttempts: maxRetries,
+              delay: retryDelay,
+              reason: "页面要求登录或验证",
+            });
+            await AsyncUtils.sleep(retryDelay, signal);
             continue;
           }
         }
 
-        // 解析页面中的JSON数据
-        const pattern = /window\._ROUTER_DATA\s*=\s*(.*?)<\/script>/s;
-        const match = pageResponse.data.match(pattern);
+        // 依次尝试已注册的页面数据提取策略
+        const result = this.pageDataExtractors.extract(htmlContent, {
+          videoId,
+          pageUrl,
+        });
 
-        if (!match || !match[1]) {
+        if (!result) {
           // 添加更多调试信息
           const errorInfo = {
             videoId,
             pageUrl,
-            hasMatch: !!match,
-            matchLength: match?.[1]?.length,
+            triedExtractors: this.pageDataExtractors.list(),
             htmlLength: htmlContent.length,
             attempt,
             needsAuth,
@@ -305,113 +636,49 @@ export class DouyinService {
               hasWindowObject: htmlContent.includes('window.'),
               hasRouterData: htmlContent.includes('_ROUTER_DATA'),
               hasVideoData: htmlContent.includes('videoData'),
+              hasInitialState: htmlContent.includes('__INITIAL_STATE__'),
+              hasNuxt: htmlContent.includes('__NUXT__'),
               hasInitialProps: htmlContent.includes('__INITIAL_PROPS__'),
               hasNextData: htmlContent.includes('__NEXT_DATA__')
             },
-            // 尝试查找其他可能的数据模式
-            alternativePatterns: [
-              htmlContent.match(/window\.__INITIAL_STATE__\s*=\s*.*?<\/script>/s) ? 'INITIAL_STATE found' : null,
-              htmlContent.match(/window\.__NUXT__\s*=\s*.*?<\/script>/s) ? 'NUXT found' : null,
-              htmlContent.match(/"videoInfoRes":\s*{/s) ? 'videoInfoRes in plain text' : null
-            ].filter(Boolean)
           };
           
-          logger.error("从HTML中解析视频信息失败", errorInfo);
+          this.logger.error("从HTML中解析视频信息失败", errorInfo);
           
           // 如果还有重试次数，继续重试
           if (attempt < maxRetries) {
             const retryDelay = Math.min(2000 * Math.pow(2, attempt - 1), 10000); // 指数退避，最大10秒
-            logger.info(`解析失败，等待 ${retryDelay}ms 后重试`, { attempt, retryDelay });
-            await new Promise(resolve => setTimeout(resolve, retryDelay));
-            lastError = new Error("从HTML中解析视频信息失败");
+            this.logger.info(`解析失败，等待 ${retryDelay}ms 后重试`, { attempt, retryDelay });
+            this.emitEvent({
+              type: "retry",
+              stage: "parsing",
+              attempt: attempt + 1,
+              maxAttempts: maxRetries,
+              delay: retryDelay,
+              reason: "从HTML中解析视频信息失败",
+            });
+            await AsyncUtils.sleep(retryDelay, signal);
+            lastError = needsAuth
+              ? new LoginRequiredError("页面要求登录或验证，无法获取视频信息", {
+                  videoId,
+                })
+              : new PageDataParseError("从HTML中解析视频信息失败", {
+                  videoId,
+                });
             continue;
           }
           
-          // 如果找不到ROUTER_DATA，尝试搜索其他可能的数据源
-          const alternativePatterns = [
-            /window\.__INITIAL_STATE__\s*=\s*(.*?)<\/script>/s,
-            /window\.__NUXT__\s*=\s*(.*?)<\/script>/s,
-            /"videoInfoRes":\s*({.*?})/s
-          ];
-          
-          for (const altPattern of alternativePatterns) {
-            const altMatch = htmlContent.match(altPattern);
-            if (altMatch) {
-              logger.info("找到替代数据模式", {
-                pattern: altPattern.toString(),
-                matchLength: altMatch[1]?.length,
-                attempt
-              });
-            }
+          if (needsAuth) {
+            throw new LoginRequiredError(
+              "页面要求登录或验证，无法获取视频信息",
+              { videoId }
+            );
           }
-          
-          throw new Error("从HTML中解析视频信息失败");
-        }
-
-        logger.debug("成功匹配JSON数据", { 
-          jsonLength: match[1].length,
-          jsonPreview: match[1].substring(0, 200) + (match[1].length > 200 ? '...' : ''),
-          attempt
-        });
-
-        const jsonData = JSON.parse(match[1].trim());
-        const VIDEO_ID_PAGE_KEY = "video_(id)/page";
-        const NOTE_ID_PAGE_KEY = "note_(id)/page";
-
-        // 添加JSON数据结构分析
-        logger.debug("JSON数据结构分析", {
-          hasLoaderData: !!jsonData.loaderData,
-          loaderDataKeys: Object.keys(jsonData.loaderData || {}),
-          expectedVideoKey: VIDEO_ID_PAGE_KEY,
-          expectedNoteKey: NOTE_ID_PAGE_KEY,
-          hasVideoKey: !!jsonData.loaderData?.[VIDEO_ID_PAGE_KEY],
-          hasNoteKey: !!jsonData.loaderData?.[NOTE_ID_PAGE_KEY],
-          attempt
-        });
-
-        let originalVideoInfo;
-        if (jsonData.loaderData[VIDEO_ID_PAGE_KEY]) {
-          originalVideoInfo = jsonData.loaderData[VIDEO_ID_PAGE_KEY].videoInfoRes;
-          logger.debug("使用视频页面数据", { pageKey: VIDEO_ID_PAGE_KEY, attempt });
-        } else if (jsonData.loaderData[NOTE_ID_PAGE_KEY]) {
-          originalVideoInfo = jsonData.loaderData[NOTE_ID_PAGE_KEY].videoInfoRes;
-          logger.debug("使用笔记页面数据", { pageKey: NOTE_ID_PAGE_KEY, attempt });
-        } else {
-          const availableKeys = Object.keys(jsonData.loaderData || {});
-          logger.error("无法从JSON中解析视频或图集信息", {
-            videoId,
-            availableKeys,
-            hasLoaderData: !!jsonData.loaderData,
-            jsonDataKeys: Object.keys(jsonData),
-            loaderDataStructure: jsonData.loaderData ? Object.keys(jsonData.loaderData).map(key => ({
-              key,
-              hasVideoInfoRes: !!jsonData.loaderData[key]?.videoInfoRes,
-              hasItemList: !!jsonData.loaderData[key]?.videoInfoRes?.item_list
-            })) : [],
-            attempt
-          });
-          throw new Error("无法从JSON中解析视频或图集信息");
+          throw new PageDataParseError("从HTML中解析视频信息失败", { videoId });
         }
 
-        const data = originalVideoInfo.item_list[0];
-
-        // 获取无水印视频URL
-        const videoUrl = data.video.play_addr.url_list[0].replace(
-          "playwm",
-          "play"
-        );
-        const desc = data.desc?.trim() || `douyin_${videoId}`;
-        const title = FileUtils.sanitizeFilename(desc);
-
-        const result = {
-          videoId,
-          title,
-          downloadUrl: videoUrl,
-          desc,
-        };
-
         const processingTime = Date.now() - startTime;
-        logger.info("视频信息解析完成", {
+        this.logger.info("视频信息解析完成", {
           ...result,
           processingTime: `${processingTime}ms`,
           attempts: attempt,
@@ -421,10 +688,20 @@ export class DouyinService {
         return result;
         
       } catch (error) {
-        lastError = error as Error;
+        // 取消时不再重试
+        if (signal?.aborted) {
+          this.logger.info("解析已取消", { shareUrl, attempt });
+          throw new CancelledError("parsing", "解析已取消", { cause: error });
+        }
+        // 录制数据中缺少的请求重试也不会出现
+        if (error instanceof FixtureNotFoundError) {
+          throw error;
+        }
+
+        lastError = this.toParseError(error);
         const processingTime = Date.now() - startTime;
-        
-        logger.warn(`解析尝试 ${attempt}/${maxRetries} 失败`, {
+
+        this.logger.warn(`解析尝试 ${attempt}/${maxRetries} 失败`, {
           shareUrl,
           error: error instanceof Error ? error.message : "未知错误",
           processingTime: `${processingTime}ms`,
@@ -436,19 +713,27 @@ export class DouyinService {
         // 如果还有重试次数，等待后继续
         if (attempt < maxRetries) {
           const retryDelay = Math.min(3000 * Math.pow(2, attempt - 1), 15000); // 指数退避，最大15秒
-          logger.info(`等待 ${retryDelay}ms 后进行第 ${attempt + 1} 次尝试`, { 
+          this.logger.info(`等待 ${retryDelay}ms 后进行第 ${attempt + 1} 次尝试`, { 
             attempt: attempt + 1, 
             maxRetries, 
             retryDelay 
           });
-          await new Promise(resolve => setTimeout(resolve, retryDelay));
+          this.emitEvent({
+            type: "retry",
+            stage: "parsing",
+            attempt: attempt + 1,
+            maxAttempts: maxRetries,
+            delay: retryDelay,
+            reason: lastError.message,
+          });
+          await AsyncUtils.sleep(retryDelay, signal);
         }
       }
     }
 
     // 所有重试都失败了
     const totalProcessingTime = Date.now() - startTime;
-    logger.error("解析抖音链接最终失败", {
+    this.logger.error("解析抖音链接最终失败", {
       shareUrl,
       maxRetries,
       totalProcessingTime: `${totalProcessingTime}ms`,
@@ -456,45 +741,81 @@ export class DouyinService {
       stack: lastError?.stack
     });
     
-    throw new Error(
-      `解析抖音链接失败 (已重试 ${maxRetries} 次): ${lastError?.message || "未知错误"}`
+    if (lastError instanceof DouyinError) {
+      throw lastError;
+    }
+    throw new PageDataParseError(
+      `解析抖音链接失败 (已重试 ${maxRetries} 次): ${lastError?.message || "未知错误"}`,
+      { cause: lastError }
+    );
+  }
+
+  /**
+   * 将解析过程中的异常转换为带错误码的错误
+   */
+  private toParseError(error: unknown): DouyinError {
+    if (error instanceof DouyinError) {
+      return error;
+    }
+    if (axios.isAxiosError(error)) {
+      return new NetworkError(`请求抖音页面失败: ${error.message}`, {
+        status: error.response?.status,
+        cause: error,
+      });
+    }
+    return new PageDataParseError(
+      `解析页面数据失败: ${error instanceof Error ? error.message : "未知错误"}`,
+      { cause: error }
     );
   }
 
   /**
    * 下载视频文件
+   * @param signal 取消信号，触发后中止下载并删除未完成的文件
+   * @param targetPath 保存路径，默认: `<downloadDir>/<videoId>.mp4`
    */
   async downloadVideo(
     videoInfo: DouyinVideoInfo,
-    progressCallback?: (progress: ProcessingProgress) => void
+    progressCallback?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal,
+    targetPath?: string
   ): Promise<string> {
     const startTime = Date.now();
-    logger.info("开始下载视频", {
+    this.logger.info("开始下载视频", {
       videoId: videoInfo.videoId,
       title: videoInfo.title,
       downloadUrl: videoInfo.downloadUrl,
       downloadDir: this.downloadDir,
     });
 
-    // 确保下载目录存在
-    if (!fs.existsSync(this.downloadDir)) {
-      logger.info("创建下载目录", { downloadDir: this.downloadDir });
-      fs.mkdirSync(this.downloadDir, { recursive: true });
-      logger.debug("下载目录创建成功");
+    if (videoInfo.contentType === "images") {
+      throw new DownloadError("图集作品没有视频文件，请使用 downloadImagePost", {
+        videoId: videoInfo.videoId,
+      });
     }
+    AsyncUtils.throwIfAborted(signal, "downloading");
+    this.checkMetadataDuration(videoInfo);
 
-    // 使用 videoId 作为文件名
+    // 默认使用 videoId 作为文件名，保存在下载目录
     const fileName = `${videoInfo.videoId}.mp4`;
-    const videoPath = path.join(this.downloadDir, fileName);
+    const videoPath = targetPath || path.join(this.downloadDir, fileName);
+
+    // 确保目标目录存在
+    const videoDir = path.dirname(videoPath);
+    if (!fs.existsSync(videoDir)) {
+      this.logger.info("创建下载目录", { downloadDir: videoDir });
+      fs.mkdirSync(videoDir, { recursive: true });
+      this.logger.debug("下载目录创建成功");
+    }
 
-    logger.debug("生成文件路径", { fileName, videoPath });
+    this.logger.debug("生成文件路径", { fileName, videoPath });
 
-    // 检查文件是否已存在，如果存在则跳过下载
+    // 检查文件是否已存在，如果存在则跳过下载（下载中的数据写在 .part 文件，校验后才会重命名）
     if (fs.existsSync(videoPath)) {
       const stats = fs.statSync(videoPath);
       const fileSizeMB = (stats.size / (1024 * 1024)).toFixed(2);
 
-      logger.info("文件已存在，跳过下载", {
+      this.logger.info("文件已存在，跳过下载", {
         videoId: videoInfo.videoId,
         filePath: videoPath,
         fileSize: `${fileSizeMB}MB`,
@@ -516,137 +837,360 @@ export class DouyinService {
         message: `开始下载视频: ${videoInfo.title} (${videoInfo.videoId})`,
       });
 
-      logger.debug("开始HTTP请求下载", {
-        url: videoInfo.downloadUrl,
-        userAgent: this.userAgent,
+      const urls = [videoInfo.downloadUrl, ...(videoInfo.downloadUrls || [])];
+      this.logger.debug("开始HTTP请求下载", { urls });
+
+      let lastLoggedDecile = -1;
+      await this.downloader.download(urls, videoPath, {
+        videoId: videoInfo.videoId,
+        signal,
+        maxFileSize: this.maxFileSize,
+        onProgress: ({ downloaded, total }) => {
+          const progress = total > 0 ? (downloaded / total) * 100 : 0;
+          this.emitEvent({ type: "download_progress", downloaded, total });
+
+          // 每10%记录一次日志，避免日志过多
+          const decile = Math.floor(progress / 10);
+          if (decile > lastLoggedDecile) {
+            lastLoggedDecile = decile;
+            this.logger.debug("下载进度更新", {
+              videoId: videoInfo.videoId,
+              progress: `${Math.round(progress)}%`,
+              downloaded: `${(downloaded / (1024 * 1024)).toFixed(2)}MB`,
+              total: `${(total / (1024 * 1024)).toFixed(2)}MB`,
+            });
+          }
+
+          progressCallback?.({
+            stage: "downloading",
+            progress: Math.round(progress),
+            message: `下载进度: ${Math.round(progress)}% (${videoInfo.videoId})`,
+          });
+        },
+        onRetry: (retry) =>
+          this.emitEvent({ type: "retry", stage: "downloading", ...retry }),
       });
 
-      const response = await axios({
-        method: "GET",
-        url: videoInfo.downloadUrl,
-        headers: { "User-Agent": this.userAgent },
-        responseType: "stream",
+      const processingTime = Date.now() - startTime;
+      const finalSize = FileUtils.getFileSize(videoPath);
+      this.logger.info("视频下载完成", {
+        videoId: videoInfo.videoId,
+        filePath: videoPath,
+        fileSize: `${(finalSize / (1024 * 1024)).toFixed(2)}MB`,
+        processingTime: `${processingTime}ms`,
+        downloadSpeed: `${(
+          finalSize /
+          (processingTime / 1000) /
+          (1024 * 1024)
+        ).toFixed(2)}MB/s`,
       });
 
-      const totalSize = parseInt(response.headers["content-length"] || "0", 10);
-      const totalSizeMB = (totalSize / (1024 * 1024)).toFixed(2);
-      let downloadedSize = 0;
+      progressCallback?.({
+        stage: "downloading",
+        progress: 100,
+        message: `视频下载完成: ${videoInfo.videoId}`,
+      });
+      return videoPath;
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      if (error instanceof CancelledError) {
+        this.logger.info("视频下载已取消", {
+          videoId: videoInfo.videoId,
+          processingTime: `${processingTime}ms`,
+        });
+        throw error;
+      }
 
-      logger.info("开始流式下载", {
+      this.logger.error("下载视频异常", {
         videoId: videoInfo.videoId,
-        totalSize: `${totalSizeMB}MB`,
-        status: response.status,
-        headers: {
-          contentType: response.headers["content-type"],
-          contentLength: response.headers["content-length"],
-        },
+        filePath: videoPath,
+        error: error instanceof Error ? error.message : "未知错误",
+        processingTime: `${processingTime}ms`,
+        stack: error instanceof Error ? error.stack : undefined,
       });
 
-      const writer = fs.createWriteStream(videoPath);
+      if (error instanceof DouyinError) {
+        throw error;
+      }
+      throw new DownloadError(
+        `下载视频失败: ${error instanceof Error ? error.message : "未知错误"}`,
+        { videoId: videoInfo.videoId, cause: error }
+      );
+    }
+  }
 
-      response.data.on("data", (chunk: Buffer) => {
-        downloadedSize += chunk.length;
-        const progress = totalSize > 0 ? (downloadedSize / totalSize) * 100 : 0;
+  /**
+   * 页面元数据中已有时长时，在下载前就排除超长视频
+   */
+  private checkMetadataDuration(videoInfo: DouyinVideoInfo): void {
+    if (
+      this.maxDuration &&
+      videoInfo.duration &&
+      videoInfo.duration > this.maxDuration
+    ) {
+      this.logger.warn("视频时长超过上限，跳过下载", {
+        videoId: videoInfo.videoId,
+        duration: videoInfo.duration,
+        maxDuration: this.maxDuration,
+      });
+      throw new LimitExceededError(
+        "duration",
+        videoInfo.duration,
+        this.maxDuration,
+        "downloading",
+        { videoId: videoInfo.videoId }
+      );
+    }
+  }
 
-        // 每10%记录一次日志，避免日志过多
-        if (Math.floor(progress) % 10 === 0 && progress > 0) {
-          logger.debug("下载进度更新", {
-            videoId: videoInfo.videoId,
-            progress: `${Math.round(progress)}%`,
-            downloaded: `${(downloadedSize / (1024 * 1024)).toFixed(2)}MB`,
-            total: `${totalSizeMB}MB`,
-          });
-        }
+  /**
+   * 下载图集作品的图片和背景音乐到 `<downloadDir>/<videoId>/` 目录，
+   * 图片按顺序命名为 01.jpeg、02.webp 等，背景音乐为 music.mp3，已存在的文件会跳过
+   * @param signal 取消信号，触发后中止剩余文件的下载
+   */
+  async downloadImagePost(
+    videoInfo: DouyinVideoInfo,
+    progressCallback?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal
+  ): Promise<ImagePostDownloadResult> {
+    const startTime = Date.now();
+    const images = videoInfo.images || [];
+    const musicUrl = videoInfo.music?.playUrl;
+    const postDir = path.join(this.downloadDir, videoInfo.videoId);
 
-        progressCallback?.({
-          stage: "downloading",
-          progress: Math.round(progress),
-          message: `下载进度: ${Math.round(progress)}% (${videoInfo.videoId})`,
-        });
+    this.logger.info("开始下载图集作品", {
+      videoId: videoInfo.videoId,
+      imageCount: images.length,
+      hasMusic: !!musicUrl,
+      postDir,
+    });
+
+    if (videoInfo.contentType !== "images") {
+      throw new DownloadError("不是图集作品，请使用 downloadVideo", {
+        videoId: videoInfo.videoId,
       });
+    }
 
-      response.data.pipe(writer);
+    FileUtils.ensureDir(postDir);
 
-      return new Promise((resolve, reject) => {
-        writer.on("finish", () => {
-          const processingTime = Date.now() - startTime;
-          const finalStats = fs.statSync(videoPath);
-          const finalSizeMB = (finalStats.size / (1024 * 1024)).toFixed(2);
+    const total = images.length + (musicUrl ? 1 : 0);
+    let completed = 0;
+    const reportProgress = () => {
+      completed++;
+      progressCallback?.({
+        stage: "downloading",
+        progress: Math.round((completed / total) * 100),
+        message: `图集下载进度: ${completed}/${total} (${videoInfo.videoId})`,
+      });
+    };
 
-          logger.info("视频下载完成", {
-            videoId: videoInfo.videoId,
-            filePath: videoPath,
-            fileSize: `${finalSizeMB}MB`,
-            processingTime: `${processingTime}ms`,
-            downloadSpeed: `${(
-              finalStats.size /
-              (processingTime / 1000) /
-              (1024 * 1024)
-            ).toFixed(2)}MB/s`,
-          });
+    progressCallback?.({
+      stage: "downloading",
+      progress: 0,
+      message: `开始下载图集: ${videoInfo.title} (${videoInfo.videoId})`,
+    });
 
-          progressCallback?.({
-            stage: "downloading",
-            progress: 100,
-            message: `视频下载完成: ${videoInfo.videoId}`,
+    const imagePaths: string[] = [];
+    for (let index = 0; index < images.length; index++) {
+      const image = images[index];
+      const baseName = String(index + 1).padStart(2, "0");
+      const imagePath = await this.downloadFile(
+        [image.url, ...image.urlList.filter((url) => url !== image.url)],
+        path.join(postDir, baseName),
+        videoInfo.videoId,
+        signal
+      );
+      imagePaths.push(imagePath);
+      reportProgress();
+    }
+
+    let musicPath: string | undefined;
+    if (musicUrl) {
+      musicPath = await this.downloadFile(
+        [musicUrl],
+        path.join(postDir, "music.mp3"),
+        videoInfo.videoId,
+        signal
+      );
+      reportProgress();
+    }
+
+    this.logger.info("图集作品下载完成", {
+      videoId: videoInfo.videoId,
+      postDir,
+      imageCount: imagePaths.length,
+      musicPath,
+      processingTime: `${Date.now() - startTime}ms`,
+    });
+
+    return { dir: postDir, imagePaths, musicPath };
+  }
+
+  /**
+   * 依次尝试候选地址下载单个文件。目标路径没有扩展名时根据 URL 或
+   * content-type 推断（用于图片），文件已存在时直接返回
+   */
+  private async downloadFile(
+    urls: string[],
+    targetPath: string,
+    videoId: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const hasExtension = path.extname(targetPath) !== "";
+    if (hasExtension && fs.existsSync(targetPath)) {
+      return targetPath;
+    }
+    if (!hasExtension) {
+      const existing = fs
+        .readdirSync(path.dirname(targetPath))
+        .find((name) => path.parse(name).name === path.basename(targetPath));
+      if (existing) {
+        return path.join(path.dirname(targetPath), existing);
+      }
+    }
+
+    let lastError: unknown;
+    for (const url of urls) {
+      AsyncUtils.throwIfAborted(signal, "downloading");
+      try {
+        const response = await this.http.axios.get(url, {
+          responseType: "arraybuffer",
+          timeout: 30000,
+          signal,
+        });
+        const filePath = hasExtension
+          ? targetPath
+          : `${targetPath}.${FileUtils.guessImageExtension(
+              url,
+              response.headers["content-type"]
+            )}`;
+        fs.writeFileSync(filePath, Buffer.from(response.data));
+        return filePath;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new CancelledError("downloading", "文件下载已取消", {
+            videoId,
+            cause: error,
           });
-          resolve(videoPath);
+        }
+        lastError = error;
+        this.logger.warn("文件下载失败，尝试下一个地址", {
+          videoId,
+          url,
+          error: error instanceof Error ? error.message : "未知错误",
         });
+      }
+    }
 
-        writer.on("error", (error: Error) => {
-          const processingTime = Date.now() - startTime;
-          logger.error("视频下载失败", {
-            videoId: videoInfo.videoId,
-            filePath: videoPath,
-            error: error.message,
-            processingTime: `${processingTime}ms`,
-            stack: error.stack,
-          });
+    throw new DownloadError(
+      `下载文件失败: ${lastError instanceof Error ? lastError.message : "未知错误"}`,
+      {
+        videoId,
+        status: axios.isAxiosError(lastError)
+          ? lastError.response?.status
+          : undefined,
+        cause: lastError,
+      }
+    );
+  }
 
-          FileUtils.deleteFile(videoPath);
-          reject(new Error(`下载视频失败: ${error.message}`));
-        });
-      });
-    } catch (error) {
-      const processingTime = Date.now() - startTime;
-      logger.error("下载视频异常", {
+  /**
+   * 下载并识别图集作品的背景音乐，没有背景音乐时返回空文本
+   */
+  private async transcribeImagePostAudio(
+    videoInfo: DouyinVideoInfo,
+    workspace: Workspace,
+    progressCallback: ((progress: ProcessingProgress) => void) | undefined,
+    onStage: (stage: ProcessingStage) => void,
+    signal?: AbortSignal,
+    recognition?: RecognitionOptions
+  ): Promise<{ transcript: Transcript; audioPath?: string }> {
+    const musicUrl = videoInfo.music?.playUrl;
+    if (!musicUrl) {
+      this.logger.warn("图集作品没有背景音乐，跳过语音识别", {
         videoId: videoInfo.videoId,
-        filePath: videoPath,
-        error: error instanceof Error ? error.message : "未知错误",
-        processingTime: `${processingTime}ms`,
-        stack: error instanceof Error ? error.stack : undefined,
       });
-
-      FileUtils.deleteFile(videoPath);
-      throw new Error(
-        `下载视频失败: ${error instanceof Error ? error.message : "未知错误"}`
-      );
+      this.emitEvent({
+        type: "warning",
+        code: "NO_BACKGROUND_MUSIC",
+        message: "图集作品没有背景音乐，跳过语音识别",
+      });
+      return {
+        transcript: {
+          text: "",
+          provider: this.speechRecognizer.name,
+          model: this.speechRecognizer.model,
+        },
+      };
     }
+
+    this.logger.debug("步骤2: 下载图集背景音乐");
+    onStage("downloading");
+    progressCallback?.({
+      stage: "downloading",
+      progress: 0,
+      message: `开始下载背景音乐: ${videoInfo.videoId}`,
+    });
+    const musicPath = await this.downloadFile(
+      [musicUrl],
+      workspace.path("music.mp3"),
+      videoInfo.videoId,
+      signal
+    );
+    progressCallback?.({
+      stage: "downloading",
+      progress: 100,
+      message: `背景音乐下载完成: ${videoInfo.videoId}`,
+    });
+
+    this.logger.debug("步骤3: 识别背景音乐");
+    onStage("speech_recognition");
+    const transcript = await this.transcribeAudio(
+      musicPath,
+      progressCallback,
+      signal,
+      workspace,
+      recognition
+    );
+    return { transcript, audioPath: musicPath };
   }
 
   /**
    * 从视频中提取音频
+   * @param signal 取消信号，触发后结束 ffmpeg 进程并删除未完成的音频文件
+   * @param audioPath 音频保存路径，默认与视频同目录同名，扩展名由音频配置决定
+   * @param profile 音频配置，默认使用服务的 audioProfile 配置
    */
   async extractAudio(
     videoPath: string,
-    progressCallback?: (progress: ProcessingProgress) => void
+    progressCallback?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal,
+    audioPath?: string,
+    profile: AudioProfileName | AudioProfile = this.audioProfile
   ): Promise<string> {
     const startTime = Date.now();
-    const audioPath = videoPath.replace(".mp4", ".mp3");
+    const audioProfile = AudioUtils.resolveProfile(profile);
+    const outputPath =
+      audioPath ??
+      videoPath.replace(/\.mp4$/i, "") +
+        AudioUtils.getExtension(audioProfile.format);
 
-    logger.info("开始提取音频", {
+    this.logger.info("开始提取音频", {
       videoPath,
-      audioPath,
+      audioPath: outputPath,
+      audioProfile: audioProfile.name,
       videoExists: fs.existsSync(videoPath),
     });
 
     if (!fs.existsSync(videoPath)) {
-      logger.error("视频文件不存在", { videoPath });
-      throw new Error(`视频文件不存在: ${videoPath}`);
+      this.logger.error("视频文件不存在", { videoPath });
+      throw new AudioExtractionError(`视频文件不存在: ${videoPath}`);
     }
+    AsyncUtils.throwIfAborted(signal, "extracting_audio");
+    await this.checkDurationLimit(videoPath, "extracting_audio");
 
     const videoStats = fs.statSync(videoPath);
-    logger.debug("视频文件信息", {
+    this.logger.debug("视频文件信息", {
       size: `${(videoStats.size / (1024 * 1024)).toFixed(2)}MB`,
       created: videoStats.birthtime.toISOString(),
       modified: videoStats.mtime.toISOString(),
@@ -659,14 +1203,15 @@ export class DouyinService {
         message: "开始提取音频",
       });
 
-      const ffmpegCommand = ffmpeg(videoPath)
-        .audioCodec("libmp3lame")
-        .audioQuality(0)
+      const ffmpegCommand = AudioUtils.applyProfile(
+        ffmpeg(videoPath),
+        audioProfile
+      )
         .on("start", (commandLine) => {
-          logger.debug("FFmpeg 命令开始执行", {
+          this.logger.debug("FFmpeg 命令开始执行", {
             commandLine,
             videoPath,
-            audioPath,
+            audioPath: outputPath,
           });
           progressCallback?.({
             stage: "extracting_audio",
@@ -676,10 +1221,15 @@ export class DouyinService {
         })
         .on("progress", (progress: any) => {
           const percent = Math.round(progress.percent || 0);
+          this.emitEvent({
+            type: "ffmpeg_progress",
+            timemark: progress.timemark,
+            percent,
+          });
 
           // 每20%记录一次详细日志
           if (percent % 20 === 0 && percent > 0) {
-            logger.debug("音频提取进度", {
+            this.logger.debug("音频提取进度", {
               percent: `${percent}%`,
               timemark: progress.timemark,
               currentFps: progress.currentFps,
@@ -694,18 +1244,19 @@ export class DouyinService {
           });
         })
         .on("end", () => {
+          disposeAbort();
           const processingTime = Date.now() - startTime;
 
-          if (fs.existsSync(audioPath)) {
-            const audioStats = fs.statSync(audioPath);
-            logger.info("音频提取完成", {
+          if (fs.existsSync(outputPath)) {
+            const audioStats = fs.statSync(outputPath);
+            this.logger.info("音频提取完成", {
               videoPath,
-              audioPath,
+              audioPath: outputPath,
               audioSize: `${(audioStats.size / (1024 * 1024)).toFixed(2)}MB`,
               processingTime: `${processingTime}ms`,
             });
           } else {
-            logger.error("音频文件未生成", { audioPath });
+            this.logger.error("音频文件未生成", { audioPath: outputPath });
           }
 
           progressCallback?.({
@@ -713,94 +1264,512 @@ export class DouyinService {
             progress: 100,
             message: "音频提取完成",
           });
-          resolve(audioPath);
+          resolve(outputPath);
         })
         .on("error", (error: Error) => {
+          disposeAbort();
           const processingTime = Date.now() - startTime;
-          logger.error("音频提取失败", {
+          FileUtils.deleteFile(outputPath);
+
+          if (signal?.aborted) {
+            this.logger.info("音频提取已取消", {
+              videoPath,
+              audioPath: outputPath,
+              processingTime: `${processingTime}ms`,
+            });
+            reject(
+              new CancelledError("extracting_audio", "音频提取已取消", {
+                cause: error,
+              })
+            );
+            return;
+          }
+
+          this.logger.error("音频提取失败", {
             videoPath,
-            audioPath,
+            audioPath: outputPath,
             error: error.message,
             processingTime: `${processingTime}ms`,
             stack: error.stack,
           });
 
-          FileUtils.deleteFile(audioPath);
-          reject(new Error(`提取音频失败: ${error.message}`));
+          reject(
+            new AudioExtractionError(`提取音频失败: ${error.message}`, {
+              cause: error,
+            })
+          );
         });
 
-      ffmpegCommand.save(audioPath);
+      // 检查时长期间可能已经取消，此时抛出的 CancelledError 使 Promise 拒绝
+      const disposeAbort = AudioUtils.startCommand(
+        ffmpegCommand,
+        () => ffmpegCommand.save(outputPath),
+        signal
+      );
     });
   }
 
   /**
-   * 从音频中提取文本
+   * 流式提取音频：下载的数据直接送入 ffmpeg 的标准输入，不写入视频文件。
+   * 下载中断时续传后接着送入；视频文件的 moov 信息位于末尾等原因导致 ffmpeg
+   * 无法从流中读取时以 AudioExtractionError 失败，可改用 downloadVideo + extractAudio
+   * @param signal 取消信号，触发后中止下载、结束 ffmpeg 进程并删除未完成的文件
+   * @param audioPath 音频保存路径，默认保存在下载目录，扩展名由音频配置决定
+   * @param videoPath 提供时同时把视频保存到该路径
+   * @param profile 音频配置，默认使用服务的 audioProfile 配置
    */
-  async extractTextFromAudio(
-    audioPath: string,
-    progressCallback?: (progress: ProcessingProgress) => void
+  async streamAudio(
+    videoInfo: DouyinVideoInfo,
+    progressCallback?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal,
+    audioPath?: string,
+    videoPath?: string,
+    profile: AudioProfileName | AudioProfile = this.audioProfile
   ): Promise<string> {
     const startTime = Date.now();
-
-    logger.info("开始语音识别", {
-      audioPath,
-      audioExists: fs.existsSync(audioPath),
-      speechApiBaseUrl: this.speechApiBaseUrl,
-      speechModel: this.speechModel,
+    const { videoId } = videoInfo;
+    const audioProfile = AudioUtils.resolveProfile(profile);
+    const outputPath =
+      audioPath ??
+      path.join(
+        this.downloadDir,
+        `${videoId}${AudioUtils.getExtension(audioProfile.format)}`
+      );
+    this.logger.info("开始流式提取音频", {
+      videoId,
+      downloadUrl: videoInfo.downloadUrl,
+      audioPath: outputPath,
+      audioProfile: audioProfile.name,
+      videoPath,
     });
 
-    if (!fs.existsSync(audioPath)) {
-      logger.error("音频文件不存在", { audioPath });
-      throw new Error(`音频文件不存在: ${audioPath}`);
+    if (videoInfo.contentType === "images") {
+      throw new DownloadError("图集作品没有视频文件，请使用 downloadImagePost", {
+        videoId,
+      });
     }
-
-    const audioStats = fs.statSync(audioPath);
-    logger.debug("音频文件信息", {
-      size: `${(audioStats.size / (1024 * 1024)).toFixed(2)}MB`,
-      duration: "unknown", // FFmpeg probe 可以获取准确时长
-      created: audioStats.birthtime.toISOString(),
+    AsyncUtils.throwIfAborted(signal, "downloading");
+    this.checkMetadataDuration(videoInfo);
+    FileUtils.ensureDir(path.dirname(outputPath));
+
+    progressCallback?.({
+      stage: "downloading",
+      progress: 0,
+      message: `开始流式下载视频: ${videoInfo.title} (${videoId})`,
     });
 
-    try {
-      progressCallback?.({
-        stage: "speech_recognition",
-        progress: 0,
-        message: "开始语音识别",
-      });
+    const source = this.downloader.stream(
+      [videoInfo.downloadUrl, ...(videoInfo.downloadUrls || [])],
+      {
+        videoId,
+        signal,
+        maxFileSize: this.maxFileSize,
+        onProgress: ({ downloaded, total }) => {
+          this.emitEvent({ type: "download_progress", downloaded, total });
+          const progress =
+            total > 0 ? Math.round((downloaded / total) * 100) : 0;
+          progressCallback?.({
+            stage: "downloading",
+            progress,
+            message: `下载进度: ${progress}% (${videoId})`,
+          });
+        },
+        onRetry: (retry) =>
+          this.emitEvent({ type: "retry", stage: "downloading", ...retry }),
+      }
+    );
 
-      const formData = new FormData();
-      formData.append("file", fs.createReadStream(audioPath));
-      formData.append("model", this.speechModel);
+    // 需要保留视频时同时写入 .part 文件，完整后再重命名
+    const videoPartPath = videoPath ? `${videoPath}.part` : undefined;
+    let videoWritten: Promise<void> = Promise.resolve();
+    if (videoPath && videoPartPath) {
+      FileUtils.ensureDir(path.dirname(videoPath));
+      const file = fs.createWriteStream(videoPartPath);
+      videoWritten = new Promise((resolve) => file.on("finish", resolve));
+      file.on("error", (error) => source.destroy(error));
+      source.pipe(file);
+    }
 
-      logger.debug("准备API请求", {
-        apiUrl: this.speechApiBaseUrl,
-        model: this.speechModel,
-        fileSize: `${(audioStats.size / (1024 * 1024)).toFixed(2)}MB`,
-      });
+    const removePartial = () => {
+      FileUtils.deleteFile(outputPath);
+      if (videoPartPath) {
+        FileUtils.deleteFile(videoPartPath);
+      }
+    };
 
-      const response = await axios.post<SpeechApiResponse>(
-        this.speechApiBaseUrl,
-        formData,
-        {
-          headers: {
-            ...formData.getHeaders(),
-            Authorization: `Bearer ${this.speechApiKey}`,
-          },
+    await new Promise<void>((resolve, reject) => {
+      // 下载失败可能发生在 ffmpeg 启动之前，先记录下来，启动后再结束进程
+      let sourceError: Error | undefined;
+      let started = false;
+      source.on("error", (error) => {
+        sourceError = error;
+        if (started) {
+          ffmpegCommand.kill("SIGKILL");
         }
-      );
-
-      const processingTime = Date.now() - startTime;
-      const extractedText = response.data.text || "未能识别出文本内容";
+      });
 
-      logger.info("语音识别完成", {
-        audioPath,
-        textLength: extractedText.length,
+      const ffmpegCommand = AudioUtils.applyProfile(
+        ffmpeg(source),
+        audioProfile
+      )
+        .on("start", (commandLine) => {
+          started = true;
+          this.logger.debug("FFmpeg 命令开始执行", {
+            commandLine,
+            audioPath: outputPath,
+          });
+          if (sourceError) {
+            ffmpegCommand.kill("SIGKILL");
+          }
+        })
+        .on("progress", (progress: any) => {
+          this.emitEvent({
+            type: "ffmpeg_progress",
+            timemark: progress.timemark,
+            percent: Math.round(progress.percent || 0),
+          });
+        })
+        .on("end", () => {
+          disposeAbort();
+          resolve();
+        })
+        .on("error", (error: Error & { inputStreamError?: Error }) => {
+          disposeAbort();
+          source.destroy();
+          removePartial();
+          const cause = sourceError || error.inputStreamError || error;
+
+          if (signal?.aborted) {
+            this.logger.info("流式提取音频已取消", {
+              videoId,
+              audioPath: outputPath,
+            });
+            reject(
+              cause instanceof CancelledError
+                ? cause
+                : new CancelledError("downloading", "流式提取音频已取消", {
+                    videoId,
+                    cause,
+                  })
+            );
+            return;
+          }
+          // 下载失败（含超出大小上限）保留原始错误，其余视为 ffmpeg 无法处理
+          if (cause instanceof DouyinError) {
+            reject(cause);
+            return;
+          }
+
+          this.logger.error("流式提取音频失败", {
+            videoId,
+            audioPath: outputPath,
+            error: cause.message,
+            processingTime: `${Date.now() - startTime}ms`,
+          });
+          reject(
+            new AudioExtractionError(`流式提取音频失败: ${cause.message}`, {
+              videoId,
+              cause,
+            })
+          );
+        });
+
+      let disposeAbort: () => void;
+      try {
+        disposeAbort = AudioUtils.startCommand(
+          ffmpegCommand,
+          () => ffmpegCommand.save(outputPath),
+          signal,
+          "downloading"
+        );
+      } catch (error) {
+        source.destroy();
+        removePartial();
+        reject(error);
+      }
+    });
+
+    if (videoPath && videoPartPath) {
+      await videoWritten;
+      fs.renameSync(videoPartPath, videoPath);
+    }
+
+    this.logger.info("流式提取音频完成", {
+      videoId,
+      audioPath: outputPath,
+      audioSize: FileUtils.formatFileSize(FileUtils.getFileSize(outputPath)),
+      videoPath,
+      processingTime: `${Date.now() - startTime}ms`,
+    });
+    progressCallback?.({
+      stage: "extracting_audio",
+      progress: 100,
+      message: "音频提取完成",
+    });
+    return outputPath;
+  }
+
+  /**
+   * 从音频中提取文本，返回经过后处理的文本
+   * @param recognition 识别参数，默认使用服务的 recognition 配置
+   */
+  async extractTextFromAudio(
+    audioPath: string,
+    progressCallback?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal,
+    recognition?: RecognitionOptions
+  ): Promise<string> {
+    const transcript = await this.transcribeAudio(
+      audioPath,
+      progressCallback,
+      signal,
+      undefined,
+      recognition
+    );
+    return (await this.postProcessTranscript(transcript)).text;
+  }
+
+  /**
+   * 对识别结果执行后处理
+   * @param processors 后处理器，默认使用服务的 postProcessors 配置
+   */
+  async postProcessTranscript(
+    transcript: Transcript,
+    processors?: TranscriptProcessor[]
+  ): Promise<Transcript> {
+    const pipeline = processors
+      ? new TranscriptPipeline(processors, this.logger)
+      : this.postProcessors;
+    return pipeline.process(transcript, (processor, error) =>
+      this.emitEvent({
+        type: "warning",
+        code: "POST_PROCESSING_FAILED",
+        message: `识别结果后处理失败（${processor}）: ${error.message}`,
+      })
+    );
+  }
+
+  /**
+   * 对识别结果做内容分析，生成摘要、关键词和章节
+   * @param title 作品标题或描述，作为上下文提供给模型
+   * @param signal 取消信号，触发后中止分析请求
+   */
+  async analyzeTranscript(
+    transcript: Transcript,
+    progressCallback?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal,
+    title?: string
+  ): Promise<TranscriptAnalysis> {
+    if (!this.transcriptAnalyzer) {
+      throw new InvalidOptionsError(
+        "未配置 transcriptAnalyzer，无法进行内容分析",
+        "analysis"
+      );
+    }
+    const startTime = Date.now();
+    AsyncUtils.throwIfAborted(signal, "analysis");
+    this.logger.info("开始内容分析", {
+      provider: this.transcriptAnalyzer.name,
+      model: this.transcriptAnalyzer.model,
+      textLength: transcript.text.length,
+      segmentCount: transcript.segments?.length || 0,
+    });
+    progressCallback?.({
+      stage: "analysis",
+      progress: 0,
+      message: "正在生成摘要和章节",
+    });
+
+    let analysis: TranscriptAnalysis;
+    try {
+      analysis = await this.transcriptAnalyzer.analyze(transcript, {
+        title,
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted && !(error instanceof CancelledError)) {
+        throw new CancelledError("analysis", "内容分析已取消", {
+          cause: error,
+        });
+      }
+      if (error instanceof DouyinError) {
+        throw error;
+      }
+      throw new AnalysisError(
+        `内容分析失败: ${error instanceof Error ? error.message : "未知错误"}`,
+        { cause: error }
+      );
+    }
+
+    progressCallback?.({
+      stage: "analysis",
+      progress: 100,
+      message: "内容分析完成",
+    });
+    this.logger.info("内容分析完成", {
+      keywords: analysis.keywords,
+      chapterCount: analysis.chapters.length,
+      processingTime: `${Date.now() - startTime}ms`,
+    });
+    return analysis;
+  }
+
+  /**
+   * 翻译识别结果，译文分段保持原分段的时间戳
+   * @param targetLanguage 目标语言，如 en、ja
+   * @param signal 取消信号，触发后中止翻译请求
+   */
+  async translateTranscript(
+    transcript: Transcript,
+    targetLanguage: string,
+    progressCallback?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal
+  ): Promise<TranscriptTranslation> {
+    if (!this.translator) {
+      throw new InvalidOptionsError(
+        "未配置 translator，无法翻译",
+        "translation"
+      );
+    }
+    if (!isLanguageTag(targetLanguage)) {
+      throw new InvalidOptionsError(
+        `无效的目标语言: ${targetLanguage}`,
+        "translation"
+      );
+    }
+    const startTime = Date.now();
+    AsyncUtils.throwIfAborted(signal, "translation");
+    this.logger.info("开始翻译", {
+      provider: this.translator.name,
+      model: this.translator.model,
+      targetLanguage,
+      textLength: transcript.text.length,
+      segmentCount: transcript.segments?.length || 0,
+    });
+    progressCallback?.({
+      stage: "translation",
+      progress: 0,
+      message: `正在翻译为 ${targetLanguage}`,
+    });
+
+    let translation: TranscriptTranslation;
+    try {
+      translation = await this.translator.translate(transcript, {
+        targetLanguage,
+        sourceLanguage: transcript.language,
+        signal,
+        onProgress: (completed, total) =>
+          progressCallback?.({
+            stage: "translation",
+            progress: Math.round((completed / total) * 100),
+            message: `已翻译 ${completed}/${total} 批`,
+          }),
+      });
+    } catch (error) {
+      if (signal?.aborted && !(error instanceof CancelledError)) {
+        throw new CancelledError("translation", "翻译已取消", {
+          cause: error,
+        });
+      }
+      if (error instanceof DouyinError) {
+        throw error;
+      }
+      throw new TranslationError(
+        `翻译失败: ${error instanceof Error ? error.message : "未知错误"}`,
+        { cause: error }
+      );
+    }
+
+    progressCallback?.({
+      stage: "translation",
+      progress: 100,
+      message: "翻译完成",
+    });
+    this.logger.info("翻译完成", {
+      targetLanguage,
+      textLength: translation.text.length,
+      segmentCount: translation.segments?.length || 0,
+      processingTime: `${Date.now() - startTime}ms`,
+    });
+    return translation;
+  }
+
+  /**
+   * 识别音频，返回包含分段时间戳的完整识别结果（未经后处理）
+   * @param signal 取消信号，触发后中止识别请求或本地识别进程
+   * @param workspace 任务工作目录，长音频分片写在其中，默认写在 tempDir
+   * @param recognition 识别参数，默认使用服务的 recognition 配置
+   */
+  async transcribeAudio(
+    audioPath: string,
+    progressCallback?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal,
+    workspace?: Workspace,
+    recognition: RecognitionOptions = this.recognition
+  ): Promise<Transcript> {
+    const startTime = Date.now();
+
+    this.logger.info("开始语音识别", {
+      audioPath,
+      audioExists: fs.existsSync(audioPath),
+      speechProvider: this.speechRecognizer.name,
+      speechModel: this.speechRecognizer.model,
+    });
+
+    if (!fs.existsSync(audioPath)) {
+      this.logger.error("音频文件不存在", { audioPath });
+      throw new SpeechRecognitionError(`音频文件不存在: ${audioPath}`);
+    }
+    AsyncUtils.throwIfAborted(signal, "speech_recognition");
+    await this.checkDurationLimit(audioPath, "speech_recognition");
+
+    const audioStats = fs.statSync(audioPath);
+    this.logger.debug("音频文件信息", {
+      size: `${(audioStats.size / (1024 * 1024)).toFixed(2)}MB`,
+      duration: "unknown", // FFmpeg probe 可以获取准确时长
+      created: audioStats.birthtime.toISOString(),
+    });
+
+    try {
+      progressCallback?.({
+        stage: "speech_recognition",
+        progress: 0,
+        message: "开始语音识别",
+      });
+
+      const chunkRanges = await this.planAudioChunks(
+        audioPath,
+        audioStats.size,
+        signal
+      );
+      const transcript =
+        chunkRanges.length > 1
+          ? await this.transcribeInChunks(
+              audioPath,
+              chunkRanges,
+              workspace?.dir ?? this.tempDir,
+              { ...recognition, signal },
+              progressCallback
+            )
+          : await this.speechRecognizer.transcribe(audioPath, {
+              ...recognition,
+              signal,
+            });
+
+      const processingTime = Date.now() - startTime;
+      const extractedText = transcript.text || "未能识别出文本内容";
+
+      this.logger.info("语音识别完成", {
+        audioPath,
+        textLength: extractedText.length,
         processingTime: `${processingTime}ms`,
-        apiStatus: response.status,
-        hasText: !!response.data.text,
+        speechProvider: transcript.provider,
+        language: transcript.language,
+        hasText: !!transcript.text,
+        segmentCount: transcript.segments?.length || 0,
       });
 
-      logger.debug("识别结果预览", {
+      this.logger.debug("识别结果预览", {
         textPreview:
           extractedText.substring(0, 100) +
           (extractedText.length > 100 ? "..." : ""),
@@ -813,46 +1782,729 @@ export class DouyinService {
         message: "语音识别完成",
       });
 
-      return extractedText;
+      return { ...transcript, text: extractedText };
     } catch (error) {
       const processingTime = Date.now() - startTime;
-      logger.error("语音识别失败", {
+      if (signal?.aborted) {
+        this.logger.info("语音识别已取消", {
+          audioPath,
+          processingTime: `${processingTime}ms`,
+        });
+        throw error instanceof CancelledError
+          ? error
+          : new CancelledError("speech_recognition", "语音识别已取消", {
+              cause: error,
+            });
+      }
+
+      this.logger.error("语音识别失败", {
         audioPath,
         error: error instanceof Error ? error.message : "未知错误",
         processingTime: `${processingTime}ms`,
-        apiUrl: this.speechApiBaseUrl,
+        speechProvider: this.speechRecognizer.name,
         stack: error instanceof Error ? error.stack : undefined,
       });
 
-      throw new Error(
-        `语音识别失败: ${error instanceof Error ? error.message : "未知错误"}`
+      if (error instanceof DouyinError) {
+        throw error;
+      }
+      throw new SpeechRecognitionError(
+        `语音识别失败: ${error instanceof Error ? error.message : "未知错误"}`,
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * 用 ffprobe 检查媒体时长是否超过 maxDuration，无法获取时长时放行
+   */
+  private async checkDurationLimit(
+    filePath: string,
+    stage: ProcessingStage
+  ): Promise<void> {
+    if (!this.maxDuration) {
+      return;
+    }
+
+    let duration: number;
+    try {
+      duration = await AudioUtils.probeDuration(filePath);
+    } catch (error) {
+      this.logger.warn("获取媒体时长失败，跳过时长检查", {
+        filePath,
+        error: error instanceof Error ? error.message : "未知错误",
+      });
+      this.emitEvent({
+        type: "warning",
+        code: "DURATION_PROBE_FAILED",
+        message: "获取媒体时长失败，跳过时长检查",
+      });
+      return;
+    }
+
+    if (duration > this.maxDuration) {
+      this.logger.warn("媒体时长超过上限", {
+        filePath,
+        duration,
+        maxDuration: this.maxDuration,
+        stage,
+      });
+      throw new LimitExceededError(
+        "duration",
+        duration,
+        this.maxDuration,
+        stage
       );
     }
   }
 
+  /**
+   * 规划长音频分片，未超过时长和大小上限时返回空数组
+   */
+  private async planAudioChunks(
+    audioPath: string,
+    audioSize: number,
+    signal?: AbortSignal
+  ): Promise<AudioChunkRange[]> {
+    if (!this.chunking.enabled) {
+      return [];
+    }
+
+    let duration: number;
+    try {
+      duration = await AudioUtils.probeDuration(audioPath);
+    } catch (error) {
+      this.logger.warn("获取音频时长失败，跳过分片", {
+        audioPath,
+        error: error instanceof Error ? error.message : "未知错误",
+      });
+      this.emitEvent({
+        type: "warning",
+        code: "DURATION_PROBE_FAILED",
+        message: "获取音频时长失败，跳过分片",
+      });
+      return [];
+    }
+
+    // 按码率换算大小上限对应的时长，留 10% 余量应对 VBR 波动
+    const sizeLimitedDuration =
+      audioSize > this.chunking.maxChunkSize
+        ? (duration * this.chunking.maxChunkSize * 0.9) / audioSize
+        : Infinity;
+    const maxChunkDuration = Math.min(
+      this.chunking.maxChunkDuration,
+      sizeLimitedDuration
+    );
+
+    if (duration <= maxChunkDuration) {
+      this.logger.debug("音频无需分片", { audioPath, duration, audioSize });
+      return [];
+    }
+
+    const silences = await AudioUtils.detectSilences(
+      audioPath,
+      this.chunking.silenceThreshold,
+      this.chunking.minSilenceDuration,
+      signal
+    );
+    const chunkRanges = AudioUtils.planChunks(
+      duration,
+      silences,
+      maxChunkDuration
+    );
+
+    this.logger.info("音频分片规划完成", {
+      audioPath,
+      duration,
+      audioSize,
+      maxChunkDuration,
+      silenceCount: silences.length,
+      chunkCount: chunkRanges.length,
+    });
+
+    return chunkRanges;
+  }
+
+  /**
+   * 分片识别长音频，按顺序拼接文本并校正分段时间戳
+   */
+  private async transcribeInChunks(
+    audioPath: string,
+    chunkRanges: AudioChunkRange[],
+    workDir: string,
+    options: TranscribeOptions,
+    progressCallback?: (progress: ProcessingProgress) => void
+  ): Promise<Transcript> {
+    const { signal } = options;
+    const chunkDir = path.join(workDir, `chunks_${uuidv4()}`);
+    FileUtils.ensureDir(chunkDir);
+
+    try {
+      const chunkPaths = await AudioUtils.splitAudio(
+        audioPath,
+        chunkRanges,
+        chunkDir,
+        signal
+      );
+      let completed = 0;
+
+      const transcripts = await AsyncUtils.mapWithConcurrency(
+        chunkPaths,
+        this.chunking.concurrency,
+        async (chunkPath, index, chunkSignal) => {
+          // 任一分片失败时中止其他分片的识别请求
+          const transcript = await this.speechRecognizer.transcribe(chunkPath, {
+            ...options,
+            signal: chunkSignal,
+          });
+          completed++;
+
+          this.logger.debug("分片识别完成", {
+            chunkIndex: index,
+            completed,
+            total: chunkPaths.length,
+            textLength: transcript.text.length,
+          });
+          progressCallback?.({
+            stage: "speech_recognition",
+            progress: Math.round((completed / chunkPaths.length) * 100),
+            message: `语音识别进度: 分片 ${completed}/${chunkPaths.length}`,
+          });
+
+          return transcript;
+        },
+        signal
+      );
+
+      const segments: TranscriptSegment[] = [];
+      transcripts.forEach((transcript, index) => {
+        const offset = chunkRanges[index].start;
+        transcript.segments?.forEach((segment) => {
+          segments.push({
+            start: segment.start + offset,
+            end: segment.end + offset,
+            text: segment.text,
+          });
+        });
+      });
+
+      return {
+        text: this.joinTexts(transcripts.map((transcript) => transcript.text)),
+        language: transcripts.find((transcript) => transcript.language)
+          ?.language,
+        duration: chunkRanges[chunkRanges.length - 1].end,
+        // 只有全部分片都带时间戳时才返回分段，避免字幕出现空洞
+        segments: transcripts.every((transcript) => transcript.segments)
+          ? segments
+          : undefined,
+        provider: this.speechRecognizer.name,
+        model: this.speechRecognizer.model,
+      };
+    } finally {
+      fs.rmSync(chunkDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * 生成当前识别配置下的缓存 key，识别参数或音频配置不同时分别缓存
+   */
+  private getTranscriptCacheKey(
+    videoId: string,
+    audioProfile: AudioProfile,
+    recognition: RecognitionOptions = {}
+  ): string {
+    const { language, prompt, hotwords, temperature, responseFormat } =
+      recognition;
+    // 固定字段顺序，未设置的参数不参与计算，与不带参数时的 key 保持一致
+    return buildTranscriptCacheKey(
+      videoId,
+      this.speechRecognizer.name,
+      this.speechRecognizer.model,
+      {
+        language,
+        prompt,
+        hotwords: hotwords ? [...hotwords].sort() : undefined,
+        temperature,
+        responseFormat,
+        // 降噪、采样率等预处理会影响识别结果；自定义配置的名称都是 custom，
+        // 按实际参数区分
+        audioProfile: [
+          audioProfile.format,
+          audioProfile.sampleRate,
+          audioProfile.channels,
+          audioProfile.bitrate,
+          audioProfile.highpass,
+          audioProfile.denoise,
+          audioProfile.loudnorm,
+          audioProfile.trimSilence,
+        ],
+      }
+    );
+  }
+
+  /**
+   * 合并单次处理的识别参数：按字段覆盖服务的 recognition 配置，
+   * 热词合并去重，开启 hashtagHotwords 时加入作品的话题标签
+   */
+  private resolveRecognitionOptions(
+    videoInfo: DouyinVideoInfo,
+    options: ExtractTextOptions
+  ): RecognitionOptions {
+    const { recognition = {}, hashtagHotwords = this.hashtagHotwords } =
+      options;
+    const hotwords = [
+      ...(this.recognition.hotwords || []),
+      ...(recognition.hotwords || []),
+      ...(hashtagHotwords ? videoInfo.hashtags || [] : []),
+    ]
+      .map((word) => word.trim())
+      .filter(Boolean);
+
+    return {
+      ...this.recognition,
+      ...recognition,
+      hotwords: hotwords.length > 0 ? [...new Set(hotwords)] : undefined,
+    };
+  }
+
+  /**
+   * 读取缓存的识别结果，过期或读取失败时返回 null
+   */
+  private async readTranscriptCache(key: string): Promise<Transcript | null> {
+    if (!this.transcriptCache) {
+      return null;
+    }
+
+    try {
+      const entry = await this.transcriptCache.get(key);
+      if (!entry) {
+        return null;
+      }
+      if (
+        this.transcriptCacheTtl > 0 &&
+        Date.now() - entry.createdAt > this.transcriptCacheTtl
+      ) {
+        this.logger.debug("识别结果缓存已过期", { key, createdAt: entry.createdAt });
+        return null;
+      }
+
+      return {
+        text: entry.text,
+        language: entry.language,
+        segments: entry.segments,
+        provider: entry.provider,
+        model: entry.model,
+      };
+    } catch (error) {
+      this.logger.warn("读取识别结果缓存失败", {
+        key,
+        error: error instanceof Error ? error.message : "未知错误",
+      });
+      this.emitEvent({
+        type: "warning",
+        code: "CACHE_READ_FAILED",
+        message: "读取识别结果缓存失败",
+      });
+      return null;
+    }
+  }
+
+  /**
+   * 写入识别结果缓存，失败时只记录日志
+   */
+  private async writeTranscriptCache(
+    key: string,
+    videoId: string,
+    transcript: Transcript
+  ): Promise<void> {
+    if (!this.transcriptCache) {
+      return;
+    }
+
+    try {
+      await this.transcriptCache.set(key, {
+        key,
+        videoId,
+        provider: transcript.provider,
+        model: transcript.model,
+        text: transcript.text,
+        language: transcript.language,
+        segments: transcript.segments,
+        createdAt: Date.now(),
+      });
+      this.logger.debug("识别结果已写入缓存", { key, videoId });
+    } catch (error) {
+      this.logger.warn("写入识别结果缓存失败", {
+        key,
+        error: error instanceof Error ? error.message : "未知错误",
+      });
+      this.emitEvent({
+        type: "warning",
+        code: "CACHE_WRITE_FAILED",
+        message: "写入识别结果缓存失败",
+      });
+    }
+  }
+
+  /**
+   * 拼接分片文本，两侧都是拉丁字符时插入空格，中文直接相连
+   */
+  private joinTexts(texts: string[]): string {
+    return texts
+      .map((text) => text.trim())
+      .filter(Boolean)
+      .reduce((joined, text) => {
+        if (!joined) return text;
+        const needsSpace =
+          /[A-Za-z0-9.,!?]$/.test(joined) && /^[A-Za-z0-9]/.test(text);
+        return needsSpace ? `${joined} ${text}` : `${joined}${text}`;
+      }, "");
+  }
+
   /**
    * 完整的文本提取流程
+   * @param shareLink 抖音分享链接或分享文本
+   * @param progressCallback 进度回调
+   * @param maxRetriesOrOptions 解析重试次数，或完整的调用选项
    */
   async extractText(
     shareLink: string,
     progressCallback?: (progress: ProcessingProgress) => void,
-    maxRetries: number = 3
-  ): Promise<{ videoInfo: DouyinVideoInfo; extractedText: string }> {
+    maxRetriesOrOptions: number | ExtractTextOptions = 3
+  ): Promise<ExtractTextResult> {
+    const options: ExtractTextOptions =
+      typeof maxRetriesOrOptions === "number"
+        ? { maxRetries: maxRetriesOrOptions }
+        : maxRetriesOrOptions;
+    return LogUtils.withContext(
+      { correlationId: this.resolveCorrelationId(options) },
+      () => this.runExtraction(shareLink, progressCallback, options)
+    );
+  }
+
+  /**
+   * 批量提取文本：以有限并发处理，按解析出的 videoId 去重，
+   * 单个条目失败不会中断其他条目，结果顺序与输入一致
+   * @example
+   * ```typescript
+   * const results = await service.extractTextBatch(links, {
+   *   concurrency: 3,
+   *   delayMs: 2000,
+   *   onItemComplete: (item) => console.log(item.index, item.status),
+   * });
+   * ```
+   * 传入 signal 时取消会作用于整个批次，未完成的条目以 CANCELLED 错误结束
+   */
+  async extractTextBatch(
+    links: string[],
+    options: BatchExtractOptions = {}
+  ): Promise<BatchItemResult[]> {
+    return LogUtils.withContext(
+      { correlationId: this.resolveCorrelationId(options) },
+      () => this.runBatch(links, options)
+    );
+  }
+
+  /**
+   * 批量提取的实现
+   */
+  private async runBatch(
+    links: string[],
+    options: BatchExtractOptions
+  ): Promise<BatchItemResult[]> {
+    const {
+      concurrency = 2,
+      delayMs = 1000,
+      onItemProgress,
+      onItemComplete,
+      ...extractOptions
+    } = options;
+    const { maxRetries = 3, signal } = extractOptions;
+    const batchStartTime = Date.now();
+    // videoId -> 首次出现的条目位置及其处理结果
+    const inFlight = new Map<
+      string,
+      { index: number; promise: Promise<ExtractTextResult> }
+    >();
+    let nextStartAt = 0;
+
+    this.logger.info("开始批量文本提取", {
+      total: links.length,
+      concurrency,
+      delayMs,
+    });
+
+    const results = await AsyncUtils.mapWithConcurrency(
+      links,
+      concurrency,
+      // 并发处理的条目日志附加条目位置，便于区分
+      (input, index) =>
+        LogUtils.withContext({ item: index }, async () => {
+          // 礼貌延迟：保证相邻条目的开始时间至少间隔 delayMs
+          const now = Date.now();
+          const wait = Math.max(0, nextStartAt - now);
+          nextStartAt = Math.max(now, nextStartAt) + delayMs;
+          const itemStartTime = Date.now();
+          const itemProgress = onItemProgress
+            ? (progress: ProcessingProgress) => onItemProgress(index, progress)
+            : undefined;
+          let videoInfo: DouyinVideoInfo | undefined;
+          let result: BatchItemResult;
+
+          try {
+            if (wait > 0) {
+              await AsyncUtils.sleep(wait, signal);
+            }
+            videoInfo = await this.parseShareUrl(input, maxRetries, signal);
+
+            const existing = inFlight.get(videoInfo.videoId);
+            const duplicateOf = existing?.index;
+            let promise: Promise<ExtractTextResult>;
+            if (existing) {
+              this.logger.info("批量条目与已有条目为同一视频，复用结果", {
+                index,
+                duplicateOf,
+                videoId: videoInfo.videoId,
+              });
+              promise = existing.promise;
+            } else {
+              promise = this.runExtraction(
+                input,
+                itemProgress,
+                extractOptions,
+                videoInfo
+              );
+              inFlight.set(videoInfo.videoId, { index, promise });
+            }
+
+            const extracted = await promise;
+            result = {
+              index,
+              input,
+              status: "success",
+              videoInfo: extracted.videoInfo,
+              extractedText: extracted.extractedText,
+              segments: extracted.segments,
+              subtitleFiles: extracted.subtitleFiles,
+              fromCache: extracted.fromCache,
+              audioPath: extracted.audioPath,
+              videoPath: extracted.videoPath,
+              audioProfile: extracted.audioProfile,
+              language: extracted.language,
+              emotion: extracted.emotion,
+              audioEvents: extracted.audioEvents,
+              analysis: extracted.analysis,
+              translation: extracted.translation,
+              duplicateOf,
+              processingTime: Date.now() - itemStartTime,
+            };
+          } catch (error) {
+            const douyinError = DouyinError.from(
+              error,
+              videoInfo ? "downloading" : "parsing",
+              videoInfo?.videoId
+            );
+            result = {
+              index,
+              input,
+              status: "error",
+              videoInfo,
+              error: douyinError.toJSON(),
+              duplicateOf:
+                videoInfo && inFlight.get(videoInfo.videoId)?.index !== index
+                  ? inFlight.get(videoInfo.videoId)?.index
+                  : undefined,
+              processingTime: Date.now() - itemStartTime,
+            };
+          }
+
+          onItemComplete?.(result);
+          return result;
+        })
+    );
+
+    const successCount = results.filter((r) => r.status === "success").length;
+    this.logger.info("批量文本提取完成", {
+      total: links.length,
+      successCount,
+      errorCount: links.length - successCount,
+      cancelled: signal?.aborted || false,
+      duplicateCount: results.filter((r) => r.duplicateOf !== undefined).length,
+      totalProcessingTime: `${Date.now() - batchStartTime}ms`,
+    });
+
+    return results;
+  }
+
+  /**
+   * 本次处理的关联 ID：优先使用调用选项，其次沿用外层日志上下文，否则新生成
+   */
+  private resolveCorrelationId(options: ExtractTextOptions): string {
+    const inherited = LogUtils.getContext()?.correlationId;
+    return (
+      options.correlationId ??
+      (typeof inherited === "string" ? inherited : uuidv4())
+    );
+  }
+
+  /**
+   * 跟踪一次文本提取：计算整体进度，发出阶段事件，
+   * 并把各步骤发出的事件交给本次处理的 onEvent 和服务上的监听器
+   */
+  private async runExtraction(
+    shareLink: string,
+    progressCallback: ((progress: ProcessingProgress) => void) | undefined,
+    options: ExtractTextOptions,
+    parsedVideoInfo?: DouyinVideoInfo
+  ): Promise<ExtractTextResult> {
+    const emit = (event: ExtractionEventPayload) =>
+      this.dispatchEvent(event, options.onEvent);
+    // 不做内容分析或翻译时对应阶段不计入整体进度
+    const tracker = new ProgressTracker(emit, {
+      ...this.stageWeights,
+      ...(this.shouldAnalyze(options) ? {} : { analysis: 0 }),
+      ...(this.resolveTranslateTo(options) ? {} : { translation: 0 }),
+    });
+
+    return this.eventScope.run(emit, async () => {
+      try {
+        return await this.executeExtraction(
+          shareLink,
+          (progress) => {
+            // 没有进度回调时也要更新，以便发出阶段和进度事件
+            const tracked = tracker.update(progress);
+            progressCallback?.(tracked);
+          },
+          options,
+          parsedVideoInfo
+        );
+      } catch (error) {
+        tracker.fail(error instanceof CancelledError ? "cancelled" : "failed");
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * 本次处理是否做内容分析
+   */
+  private shouldAnalyze(options: ExtractTextOptions): boolean {
+    return options.analyze ?? this.transcriptAnalyzer !== null;
+  }
+
+  /**
+   * 本次处理的翻译目标语言，不翻译时为 undefined
+   */
+  private resolveTranslateTo(options: ExtractTextOptions): string | undefined {
+    return (options.translateTo ?? this.translateTo).trim() || undefined;
+  }
+
+  /**
+   * 发出处理事件：在处理过程中时归属到当前处理，否则只发给服务上的监听器
+   */
+  private emitEvent(event: ExtractionEventPayload): void {
+    const emit = this.eventScope.getStore();
+    if (emit) {
+      emit(event);
+    } else {
+      this.dispatchEvent(event);
+    }
+  }
+
+  private dispatchEvent(
+    payload: ExtractionEventPayload,
+    onEvent?: (event: ExtractionEvent) => void
+  ): void {
+    const context = LogUtils.getContext();
+    const event = {
+      ...payload,
+      timestamp: Date.now(),
+      correlationId:
+        typeof context?.correlationId === "string"
+          ? context.correlationId
+          : undefined,
+      index: typeof context?.item === "number" ? context.item : undefined,
+    } as ExtractionEvent;
+
+    // 监听器的异常不影响处理流程
+    try {
+      onEvent?.(event);
+      this.emit(event.type, event as never);
+      this.emit("event", event);
+    } catch (error) {
+      this.logger.warn("事件监听器执行失败", {
+        eventType: event.type,
+        error: error instanceof Error ? error.message : "未知错误",
+      });
+    }
+  }
+
+  /**
+   * 文本提取流程的实现，parsedVideoInfo 不为空时跳过链接解析
+   */
+  private async executeExtraction(
+    shareLink: string,
+    progressCallback: (progress: ProcessingProgress) => void,
+    options: ExtractTextOptions,
+    parsedVideoInfo?: DouyinVideoInfo
+  ): Promise<ExtractTextResult> {
     const overallStartTime = Date.now();
-    const tempFiles: string[] = [];
+    const analyze = this.shouldAnalyze(options);
+    if (analyze && !this.transcriptAnalyzer) {
+      throw new InvalidOptionsError(
+        "未配置 transcriptAnalyzer，无法进行内容分析"
+      );
+    }
+    const translateTo = this.resolveTranslateTo(options);
+    if (translateTo && !this.translator) {
+      throw new InvalidOptionsError("未配置 translator，无法翻译");
+    }
+    // 目标语言会拼进字幕文件名，必须在开始处理前校验
+    if (translateTo && !isLanguageTag(translateTo)) {
+      throw new InvalidOptionsError(`无效的目标语言: ${translateTo}`);
+    }
+    const audioProfile = AudioUtils.resolveProfile(
+      options.audioProfile ?? this.audioProfile
+    );
+    const audioExtension = AudioUtils.getExtension(audioProfile.format);
+    const outputDir = options.outputDir || this.downloadDir;
+    // 每次处理使用独立的工作目录，并发处理同一视频时中间文件互不覆盖
+    const workspace = this.workspaces.create();
+    const {
+      maxRetries = 3,
+      subtitleFormats = [],
+      cache: cacheMode = "use",
+      keepAudio = false,
+      keepVideo = false,
+      streaming = this.streaming,
+      postProcessors,
+      translationSubtitles = "bilingual",
+      signal,
+    } = options;
+    let stage: ProcessingStage = "parsing";
+    let videoId: string | undefined;
 
-    logger.info("开始完整文本提取流程", { shareLink, maxRetries });
+    this.logger.info("开始完整文本提取流程", {
+      shareLink,
+      maxRetries,
+      subtitleFormats,
+      cacheMode,
+    });
 
     try {
       // 1. 解析链接
-      logger.debug("步骤1: 解析链接");
+      this.logger.debug("步骤1: 解析链接");
       progressCallback?.({
         stage: "parsing",
         progress: 0,
         message: "正在解析抖音链接",
       });
 
-      const videoInfo = await this.parseShareUrl(shareLink, maxRetries);
+      AsyncUtils.throwIfAborted(signal, stage);
+      const videoInfo =
+        parsedVideoInfo ||
+        (await this.parseShareUrl(shareLink, maxRetries, signal));
+      videoId = videoInfo.videoId;
 
       progressCallback?.({
         stage: "parsing",
@@ -860,44 +2512,248 @@ export class DouyinService {
         message: "链接解析完成",
       });
 
-      // 2. 下载视频
-      logger.debug("步骤2: 下载视频");
-      const videoPath = await this.downloadVideo(videoInfo, progressCallback);
-      tempFiles.push(videoPath);
+      // 先查识别结果缓存，命中时跳过下载和识别
+      const recognition = this.resolveRecognitionOptions(videoInfo, options);
+      const cacheKey = this.getTranscriptCacheKey(
+        videoInfo.videoId,
+        audioProfile,
+        recognition
+      );
+      let transcript =
+        cacheMode === "use" ? await this.readTranscriptCache(cacheKey) : null;
+      const fromCache = transcript !== null;
+      let audioPath: string | undefined;
+      let videoPath: string | undefined;
+      let usedAudioProfile: AudioProfile | undefined;
+
+      if (transcript) {
+        this.logger.info("命中识别结果缓存，跳过下载和识别", {
+          videoId: videoInfo.videoId,
+          cacheKey,
+        });
+        progressCallback?.({
+          stage: "speech_recognition",
+          progress: 100,
+          message: "使用缓存的识别结果",
+        });
+      } else if (videoInfo.contentType === "images") {
+        // 图集作品：识别背景音乐音轨
+        const imagePostAudio = await this.transcribeImagePostAudio(
+          videoInfo,
+          workspace,
+          progressCallback,
+          (nextStage) => (stage = nextStage),
+          signal,
+          recognition
+        );
+        transcript = imagePostAudio.transcript;
+        if (keepAudio && imagePostAudio.audioPath) {
+          audioPath = workspace.keep(
+            imagePostAudio.audioPath,
+            path.join(outputDir, `${videoInfo.videoId}.mp3`)
+          );
+        }
+      } else {
+        const workspaceVideoPath = workspace.path("video.mp4");
+        let extractedAudioPath: string | undefined;
+
+        if (streaming) {
+          // 2-3. 边下载边提取音频，只在需要保留时写入视频文件
+          this.logger.debug("步骤2-3: 流式下载并提取音频");
+          stage = "downloading";
+          try {
+            extractedAudioPath = await this.streamAudio(
+              videoInfo,
+              progressCallback,
+              signal,
+              workspace.path(`audio${audioExtension}`),
+              keepVideo ? workspaceVideoPath : undefined,
+              audioProfile
+            );
+          } catch (error) {
+            if (!(error instanceof AudioExtractionError) || signal?.aborted) {
+              throw error;
+            }
+            this.logger.warn("流式提取音频失败，改为下载视频后提取", {
+              videoId: videoInfo.videoId,
+              error: error.message,
+            });
+            this.emitEvent({
+              type: "warning",
+              code: "STREAMING_FALLBACK",
+              message: "流式提取音频失败，改为下载视频后提取",
+            });
+          }
+        }
 
-      // 3. 提取音频
-      logger.debug("步骤3: 提取音频");
-      const audioPath = await this.extractAudio(videoPath, progressCallback);
-      tempFiles.push(audioPath);
+        if (!extractedAudioPath) {
+          // 2. 下载视频
+          this.logger.debug("步骤2: 下载视频");
+          stage = "downloading";
+          const downloadedPath = await this.downloadVideo(
+            videoInfo,
+            progressCallback,
+            signal,
+            workspaceVideoPath
+          );
+
+          // 3. 提取音频
+          this.logger.debug("步骤3: 提取音频");
+          stage = "extracting_audio";
+          extractedAudioPath = await this.extractAudio(
+            downloadedPath,
+            progressCallback,
+            signal,
+            workspace.path(`audio${audioExtension}`),
+            audioProfile
+          );
+        }
+        usedAudioProfile = audioProfile;
+
+        // 4. 语音识别
+        this.logger.debug("步骤4: 语音识别");
+        stage = "speech_recognition";
+        transcript = await this.transcribeAudio(
+          extractedAudioPath,
+          progressCallback,
+          signal,
+          workspace,
+          recognition
+        );
+        // 识别完成后才移到输出目录，失败或取消时随工作目录清理
+        if (keepAudio) {
+          audioPath = workspace.keep(
+            extractedAudioPath,
+            path.join(outputDir, `${videoInfo.videoId}${audioExtension}`)
+          );
+        }
+        if (keepVideo && fs.existsSync(workspaceVideoPath)) {
+          videoPath = workspace.keep(
+            workspaceVideoPath,
+            path.join(outputDir, `${videoInfo.videoId}.mp4`)
+          );
+        }
+      }
 
-      // 4. 语音识别
-      logger.debug("步骤4: 语音识别");
-      const extractedText = await this.extractTextFromAudio(
-        audioPath,
-        progressCallback
-      );
+      AsyncUtils.throwIfAborted(signal, stage);
+      if (!fromCache && cacheMode !== "bypass") {
+        await this.writeTranscriptCache(cacheKey, videoInfo.videoId, transcript);
+      }
+      // 缓存保存原始结果，后处理在读写缓存之后进行
+      transcript = await this.postProcessTranscript(transcript, postProcessors);
+      const extractedText = transcript.text;
+
+      // 生成字幕文件（与视频同名，保存在输出目录，不随临时文件清理）
+      let subtitleFiles: ExtractTextResult["subtitleFiles"];
+      if (subtitleFormats.length > 0) {
+        if (transcript.segments && transcript.segments.length > 0) {
+          subtitleFiles = SubtitleUtils.writeSubtitleFiles(
+            transcript.segments,
+            path.join(outputDir, videoInfo.videoId),
+            subtitleFormats
+          );
+          this.logger.info("字幕文件生成完成", { subtitleFiles });
+        } else {
+          this.logger.warn("识别结果不包含分段时间戳，跳过字幕生成", {
+            videoId: videoInfo.videoId,
+            speechProvider: transcript.provider,
+            speechModel: transcript.model,
+          });
+          this.emitEvent({
+            type: "warning",
+            code: "NO_SEGMENTS",
+            message: "识别结果不包含分段时间戳，跳过字幕生成",
+          });
+        }
+      }
+
+      // 内容分析失败不影响识别结果，只发出警告
+      let analysis: TranscriptAnalysis | undefined;
+      if (analyze && extractedText.trim()) {
+        this.logger.debug("步骤5: 内容分析");
+        stage = "analysis";
+        try {
+          analysis = await this.analyzeTranscript(
+            transcript,
+            progressCallback,
+            signal,
+            videoInfo.desc || videoInfo.title
+          );
+        } catch (error) {
+          if (error instanceof CancelledError || signal?.aborted) {
+            throw error;
+          }
+          const message = error instanceof Error ? error.message : "未知错误";
+          this.logger.warn("内容分析失败，结果中不包含分析", {
+            videoId: videoInfo.videoId,
+            error: message,
+          });
+          this.emitEvent({
+            type: "warning",
+            code: "ANALYSIS_FAILED",
+            message: `内容分析失败: ${message}`,
+          });
+        }
+      }
+
+      // 翻译失败同样只发出警告
+      let translation: TranscriptTranslation | undefined;
+      if (translateTo && extractedText.trim()) {
+        this.logger.debug("步骤6: 翻译");
+        stage = "translation";
+        try {
+          translation = await this.translateTranscript(
+            transcript,
+            translateTo,
+            progressCallback,
+            signal
+          );
+        } catch (error) {
+          if (error instanceof CancelledError || signal?.aborted) {
+            throw error;
+          }
+          const message = error instanceof Error ? error.message : "未知错误";
+          this.logger.warn("翻译失败，结果中不包含译文", {
+            videoId: videoInfo.videoId,
+            targetLanguage: translateTo,
+            error: message,
+          });
+          this.emitEvent({
+            type: "warning",
+            code: "TRANSLATION_FAILED",
+            message: `翻译失败: ${message}`,
+          });
+        }
+      }
+      if (translation?.segments && subtitleFormats.length > 0) {
+        // 与翻译时一样跳过空分段，保证原文和译文按位置对应
+        const original = (transcript.segments || []).filter((segment) =>
+          segment.text.trim()
+        );
+        translation.subtitleFiles = SubtitleUtils.writeSubtitleFiles(
+          translationSubtitles === "bilingual"
+            ? SubtitleUtils.toBilingualSegments(original, translation.segments)
+            : translation.segments,
+          path.join(outputDir, `${videoInfo.videoId}.${translateTo}`),
+          subtitleFormats
+        );
+        this.logger.info("译文字幕文件生成完成", {
+          subtitleFiles: translation.subtitleFiles,
+          translationSubtitles,
+        });
+      }
 
-      // 5. 清理临时文件（根据配置）
-      if (this.autoCleanTempFiles) {
-        logger.debug("步骤5: 清理临时文件");
+      // 7. 清理工作目录（根据清理策略）
+      const tempFiles = workspace.list();
+      if (this.workspaces.shouldCleanup("success")) {
+        this.logger.debug("步骤7: 清理临时文件");
         progressCallback?.({
           stage: "cleaning",
           progress: 0,
           message: "正在清理临时文件",
         });
-
-        const deletedFiles = FileUtils.deleteFiles(tempFiles);
-        logger.info("临时文件清理完成", {
-          deletedFiles,
-          tempFilesCount: tempFiles.length,
-        });
-      } else {
-        logger.info("跳过自动清理临时文件", {
-          tempFiles,
-          tempFilesCount: tempFiles.length,
-          reason: "autoCleanTempFiles配置为false",
-        });
       }
+      const cleaned = this.workspaces.finish(workspace, "success");
 
       progressCallback?.({
         stage: "completed",
@@ -907,42 +2763,57 @@ export class DouyinService {
 
       const totalProcessingTime = Date.now() - overallStartTime;
 
-      logger.info("文本提取流程完成", {
+      this.logger.info("文本提取流程完成", {
         videoId: videoInfo.videoId,
         textLength: extractedText.length,
         totalProcessingTime: `${totalProcessingTime}ms`,
         tempFilesProcessed: tempFiles.length,
-        tempFilesRetained: !this.autoCleanTempFiles ? tempFiles.length : 0,
+        tempFilesRetained: cleaned ? 0 : tempFiles.length,
         maxRetries,
       });
 
-      return { videoInfo, extractedText };
+      return {
+        videoInfo,
+        extractedText,
+        segments: transcript.segments,
+        subtitleFiles,
+        fromCache,
+        audioPath,
+        videoPath,
+        audioProfile: usedAudioProfile,
+        language: transcript.language,
+        emotion: transcript.emotion,
+        audioEvents: transcript.audioEvents,
+        analysis,
+        translation,
+      };
     } catch (error) {
       const totalProcessingTime = Date.now() - overallStartTime;
+      // 取消后各步骤抛出的中断异常统一视为取消，并记录实际所处的阶段
+      const douyinError =
+        signal?.aborted && !(error instanceof CancelledError)
+          ? new CancelledError(stage, "操作已取消", { videoId, cause: error })
+          : DouyinError.from(error, stage, videoId);
 
-      logger.error("文本提取流程失败", {
+      this.logger.error("文本提取流程失败", {
         shareLink,
-        error: error instanceof Error ? error.message : "未知错误",
+        error: douyinError.message,
+        code: douyinError.code,
+        stage: douyinError.stage,
+        videoId,
         totalProcessingTime: `${totalProcessingTime}ms`,
-        tempFiles,
+        tempFiles: workspace.list(),
         maxRetries,
         stack: error instanceof Error ? error.stack : undefined,
       });
 
-      // 清理临时文件（根据配置，异常情况下也遵循配置）
-      if (this.autoCleanTempFiles) {
-        logger.debug("清理异常情况下的临时文件");
-        const deletedFiles = FileUtils.deleteFiles(tempFiles);
-        logger.info("异常清理完成", { deletedFiles });
-      } else {
-        logger.info("跳过异常情况下的临时文件清理", {
-          tempFiles,
-          tempFilesCount: tempFiles.length,
-          reason: "autoCleanTempFiles配置为false",
-        });
-      }
+      // 清理工作目录（失败和取消分别遵循清理策略）
+      this.workspaces.finish(
+        workspace,
+        douyinError instanceof CancelledError ? "cancelled" : "failure"
+      );
 
-      throw error;
+      throw douyinError;
     }
   }
 
@@ -954,14 +2825,14 @@ export class DouyinService {
     deletedFiles: string[];
     errors: string[];
   } {
-    logger.info("开始手动清理临时文件", {
+    this.logger.info("开始手动清理临时文件", {
       tempFiles,
       tempFilesCount: tempFiles.length,
     });
 
     const result = FileUtils.deleteFiles(tempFiles);
 
-    logger.info("手动清理临时文件完成", {
+    this.logger.info("手动清理临时文件完成", {
       deletedFiles: result.deletedFiles,
       errors: result.errors,
       deletedCount: result.deletedFiles.length,
@@ -971,10 +2842,32 @@ export class DouyinService {
     return result;
   }
 
+  /**
+   * 立即清理 tempDir 下遗留的任务目录（超过 maxAge 或超出 maxTotalSize 的部分），
+   * 正在处理的任务不受影响
+   */
+  sweepWorkspaces(): WorkspaceSweepResult {
+    return this.workspaces.sweep();
+  }
+
   /**
    * 获取当前自动清理配置状态
    */
   getAutoCleanTempFilesStatus(): boolean {
     return this.autoCleanTempFiles;
   }
+
+  /**
+   * 获取服务使用的日志（已附加关联 ID 和脱敏处理）
+   */
+  getLogger(): Logger {
+    return this.logger;
+  }
+
+  /**
+   * 获取服务使用的 HTTP 客户端，可用于查看或保存 cookie
+   */
+  getHttpClient(): HttpClient {
+    return this.http;
+  }
 }
@@ -0,0 +1,107 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { Downloader } from "./Downloader";
+import { DownloadError } from "../errors";
+import { Logger } from "../types";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+const content = Buffer.from(Array.from({ length: 4096 }, (_, i) => i % 256));
+
+describe("Downloader", () => {
+  let server: http.Server;
+  let url: string;
+  let workDir: string;
+  /** 收到的 Range 请求头，未携带时为 null */
+  let ranges: Array<string | null>;
+  /** 为 true 时只发送一半数据后断开连接 */
+  let interrupt: boolean;
+
+  beforeEach(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "douyin-download-"));
+    ranges = [];
+    interrupt = false;
+    server = http.createServer((req, res) => {
+      const range = req.headers.range ?? null;
+      ranges.push(range);
+      const offset = range ? Number(/bytes=(\d+)-/.exec(range)?.[1]) : 0;
+      const body = content.subarray(offset);
+      res.writeHead(range ? 206 : 200, {
+        "Content-Length": String(body.length),
+        ...(range
+          ? {
+              "Content-Range": `bytes ${offset}-${content.length - 1}/${
+                content.length
+              }`,
+            }
+          : {}),
+      });
+      if (interrupt) {
+        // 等客户端写入已收到的数据后再断开
+        res.write(body.subarray(0, body.length / 2));
+        setTimeout(() => res.destroy(), 50);
+      } else {
+        res.end(body);
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v.mp4`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("之后的任务从共享目录中的 .part 文件续传", async () => {
+    const partDir = path.join(workDir, "partial");
+    const options = { partDir, maxAttemptsPerUrl: 1, logger: silentLogger };
+
+    // 第一次运行：下载到一半连接中断
+    interrupt = true;
+    await expect(
+      new Downloader(options).download(
+        [url],
+        path.join(workDir, "job_1", "video.mp4"),
+        { videoId: "7300000000000000001" }
+      )
+    ).rejects.toBeInstanceOf(DownloadError);
+    const partPath = path.join(partDir, "7300000000000000001.mp4.part");
+    expect(fs.statSync(partPath).size).toBe(content.length / 2);
+
+    // 第二次运行（新的下载器和任务目录）：以 Range 请求续传
+    interrupt = false;
+    const targetPath = path.join(workDir, "job_2", "video.mp4");
+    await new Downloader(options).download([url], targetPath, {
+      videoId: "7300000000000000001",
+    });
+
+    expect(ranges).toEqual([null, `bytes=${content.length / 2}-`]);
+    expect(fs.readFileSync(targetPath)).toEqual(content);
+    expect(fs.readdirSync(partDir)).toEqual([]);
+  });
+
+  it("未配置 partDir 时写在目标文件旁", async () => {
+    interrupt = true;
+    const targetPath = path.join(workDir, "video.mp4");
+
+    await expect(
+      new Downloader({ maxAttemptsPerUrl: 1, logger: silentLogger }).download(
+        [url],
+        targetPath
+      )
+    ).rejects.toBeInstanceOf(DownloadError);
+
+    expect(fs.existsSync(`${targetPath}.part`)).toBe(true);
+  });
+});
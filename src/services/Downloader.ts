@@ -0,0 +1,583 @@
+import axios from "axios";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { PassThrough, Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  DownloadOptions,
+  DownloadProgress,
+  Logger,
+  RetryInfo,
+} from "../types";
+import {
+  CancelledError,
+  DownloadError,
+  FixtureNotFoundError,
+  LimitExceededError,
+} from "../errors";
+import { HttpClient } from "../http";
+import { AsyncUtils } from "../utils/asyncUtils";
+import { FileUtils } from "../utils/fileUtils";
+import defaultLogger from "../utils/logger";
+
+export interface DownloaderOptions extends DownloadOptions {
+  /** 发起请求使用的 HTTP 客户端，默认新建一个不带额外配置的客户端 */
+  httpClient?: HttpClient;
+  logger?: Logger;
+}
+
+/**
+ * 单次下载的调用选项
+ */
+export interface DownloadFileOptions {
+  /** 用于日志和错误信息 */
+  videoId?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: DownloadProgress) => void;
+  /** 中断后在同一地址续传前的回调 */
+  onRetry?: (retry: RetryInfo) => void;
+  /** 文件大小上限（字节），响应头或已下载字节数超过时以 LimitExceededError 中止 */
+  maxFileSize?: number;
+}
+
+/**
+ * 下载过程中的可续传中断（数据不完整、连接中断、停滞）
+ */
+class IncompleteDownloadError extends Error {}
+
+/**
+ * 流式下载的调用方已销毁输出流，不再重试
+ */
+class OutputClosedError extends Error {}
+
+/**
+ * 流式下载的进度：已输出的字节数和首次得到的文件总大小
+ */
+interface StreamState {
+  emitted: number;
+  expectedSize?: number;
+}
+
+/**
+ * 可续传的文件下载器：先写入 .part 文件，中断后以 Range 请求续传，
+ * 校验大小后再移动为目标文件；当前地址失败时依次尝试其他镜像地址
+ */
+export class Downloader {
+  /** 本进程中正在写入的共享 .part 文件 */
+  private static readonly activeParts = new Set<string>();
+  private readonly http: HttpClient;
+  private readonly logger: Logger;
+  private readonly requestTimeout: number;
+  private readonly stallTimeout: number;
+  private readonly maxAttemptsPerUrl: number;
+  private readonly partDir?: string;
+
+  constructor(options: DownloaderOptions = {}) {
+    this.logger = options.logger ?? defaultLogger;
+    this.http =
+      options.httpClient ?? new HttpClient({ logger: this.logger });
+    this.requestTimeout = options.requestTimeout ?? 15000;
+    this.stallTimeout = options.stallTimeout ?? 30000;
+    this.maxAttemptsPerUrl = Math.max(1, options.maxAttemptsPerUrl ?? 3);
+    this.partDir = options.partDir;
+  }
+
+  /**
+   * 下载文件到 targetPath，返回 targetPath。
+   * 失败时保留 .part 文件供下次续传；取消时删除 .part 文件
+   */
+  async download(
+    urls: string[],
+    targetPath: string,
+    options: DownloadFileOptions = {}
+  ): Promise<string> {
+    const { partPath, release } = this.claimPart(urls, targetPath, options);
+    FileUtils.ensureDir(path.dirname(targetPath));
+    // 各镜像返回的应是同一文件，记录首次得到的总大小用于校验
+    let expectedSize: number | undefined;
+
+    try {
+      await this.tryUrls(urls, options, async (url) => {
+        expectedSize = await this.fetchToPart(
+          url,
+          partPath,
+          expectedSize,
+          options
+        );
+      });
+      FileUtils.moveFile(partPath, targetPath);
+      return targetPath;
+    } catch (error) {
+      if (
+        error instanceof LimitExceededError ||
+        error instanceof CancelledError
+      ) {
+        FileUtils.deleteFile(partPath);
+      }
+      throw error;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * 确定 .part 文件位置：配置了 partDir 时按 videoId（没有时按地址）放在
+   * 该目录，之后的任务或进程下载同一文件时可以续传；该文件正被本进程或
+   * 其他仍在运行的进程写入时，退回到目标文件旁的 `<目标>.part`
+   */
+  private claimPart(
+    urls: string[],
+    targetPath: string,
+    options: DownloadFileOptions
+  ): { partPath: string; release: () => void } {
+    const localPart = {
+      partPath: `${targetPath}.part`,
+      release: () => undefined,
+    };
+    if (!this.partDir) {
+      return localPart;
+    }
+
+    const key =
+      options.videoId ||
+      crypto
+        .createHash("sha256")
+        .update((urls.find(Boolean) || targetPath).split("?")[0])
+        .digest("hex")
+        .slice(0, 32);
+    const partPath = path.join(
+      this.partDir,
+      `${FileUtils.sanitizeFilename(key)}${path.extname(targetPath)}.part`
+    );
+    const lockPath = `${partPath}.lock`;
+    if (
+      Downloader.activeParts.has(partPath) ||
+      FileUtils.isLockHeld(lockPath)
+    ) {
+      return localPart;
+    }
+
+    FileUtils.ensureDir(this.partDir);
+    fs.writeFileSync(lockPath, String(process.pid));
+    Downloader.activeParts.add(partPath);
+    if (FileUtils.getFileSize(partPath) > 0) {
+      this.logger.info("发现未完成的下载，将续传", {
+        videoId: options.videoId,
+        partPath,
+        downloaded: FileUtils.formatFileSize(FileUtils.getFileSize(partPath)),
+      });
+    }
+    return {
+      partPath,
+      release: () => {
+        Downloader.activeParts.delete(partPath);
+        FileUtils.deleteFile(lockPath);
+      },
+    };
+  }
+
+  /**
+   * 以流的形式下载，不写入磁盘：返回的流依次输出文件内容，
+   * 中断后以 Range 请求续传并接着输出，当前地址失败时尝试其他镜像。
+   * 最终失败或取消时流以对应的错误结束；调用方销毁流时停止下载
+   */
+  stream(urls: string[], options: DownloadFileOptions = {}): Readable {
+    const output = new PassThrough();
+    const state: StreamState = { emitted: 0 };
+
+    this.tryUrls(urls, options, (url) =>
+      this.fetchToStream(url, output, state, options)
+    ).then(
+      () => output.end(),
+      (error) => output.destroy(error)
+    );
+    return output;
+  }
+
+  /**
+   * 依次尝试各地址，每个地址最多 maxAttemptsPerUrl 次，直到 fetch 成功。
+   * 取消时以 CancelledError 结束，全部失败时抛出 DownloadError
+   */
+  private async tryUrls(
+    urls: string[],
+    options: DownloadFileOptions,
+    fetch: (url: string) => Promise<void>
+  ): Promise<void> {
+    const { videoId, signal } = options;
+    const candidates = Array.from(new Set(urls.filter(Boolean)));
+    if (candidates.length === 0) {
+      throw new DownloadError("没有可用的下载地址", { videoId });
+    }
+    let lastError: unknown;
+
+    try {
+      for (let urlIndex = 0; urlIndex < candidates.length; urlIndex++) {
+        const url = candidates[urlIndex];
+
+        for (let attempt = 1; attempt <= this.maxAttemptsPerUrl; attempt++) {
+          AsyncUtils.throwIfAborted(signal, "downloading");
+          try {
+            await fetch(url);
+            return;
+          } catch (error) {
+            if (
+              signal?.aborted ||
+              error instanceof LimitExceededError ||
+              error instanceof FixtureNotFoundError ||
+              error instanceof OutputClosedError
+            ) {
+              throw error;
+            }
+            lastError = error;
+
+            const status = axios.isAxiosError(error)
+              ? error.response?.status
+              : undefined;
+            // 4xx（限流和超时除外）说明该地址不可用，直接换下一个镜像
+            const retryable =
+              status === undefined ||
+              status >= 500 ||
+              status === 408 ||
+              status === 429;
+
+            this.logger.warn("下载中断", {
+              videoId,
+              url,
+              urlIndex,
+              attempt,
+              status,
+              error: error instanceof Error ? error.message : "未知错误",
+              willResume: retryable && attempt < this.maxAttemptsPerUrl,
+            });
+
+            if (!retryable) {
+              break;
+            }
+            if (attempt < this.maxAttemptsPerUrl) {
+              options.onRetry?.({
+                attempt: attempt + 1,
+                maxAttempts: this.maxAttemptsPerUrl,
+                delay: 1000 * attempt,
+                reason: error instanceof Error ? error.message : "未知错误",
+              });
+              await AsyncUtils.sleep(1000 * attempt, signal);
+            }
+          }
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted && !(error instanceof CancelledError)) {
+        throw new CancelledError("downloading", "下载已取消", {
+          videoId,
+          cause: error,
+        });
+      }
+      throw error;
+    }
+
+    throw new DownloadError(
+      `下载失败（已尝试 ${candidates.length} 个地址）: ${
+        lastError instanceof Error ? lastError.message : "未知错误"
+      }`,
+      {
+        videoId,
+        status: axios.isAxiosError(lastError)
+          ? lastError.response?.status
+          : undefined,
+        cause: lastError,
+      }
+    );
+  }
+
+  /**
+   * 从 url 下载到 partPath，已有部分时续传，返回文件总大小（未知时为 0）
+   */
+  private async fetchToPart(
+    url: string,
+    partPath: string,
+    expectedSize: number | undefined,
+    options: DownloadFileOptions
+  ): Promise<number> {
+    const { videoId, signal, maxFileSize } = options;
+    let offset = FileUtils.getFileSize(partPath);
+    if (expectedSize && offset === expectedSize) {
+      return expectedSize;
+    }
+    if (expectedSize && offset > expectedSize) {
+      FileUtils.deleteFile(partPath);
+      offset = 0;
+    }
+
+    const response = await this.http.axios.get(url, {
+      headers: offset > 0 ? { Range: `bytes=${offset}-` } : {},
+      responseType: "stream",
+      timeout: this.requestTimeout,
+      signal,
+      validateStatus: (status) =>
+        (status >= 200 && status < 300) || status === 416,
+    });
+
+    const contentRange = String(response.headers["content-range"] || "");
+    const rangeTotal = parseInt(contentRange.split("/")[1] || "0", 10) || 0;
+
+    if (response.status === 416) {
+      response.data.destroy();
+      // 已有部分与服务器文件一样大，说明上次已下载完整
+      if (offset > 0 && rangeTotal === offset) {
+        return offset;
+      }
+      FileUtils.deleteFile(partPath);
+      throw new IncompleteDownloadError("续传位置无效，将重新下载");
+    }
+
+    const resumed = response.status === 206;
+    if (resumed && !contentRange.startsWith(`bytes ${offset}-`)) {
+      response.data.destroy();
+      FileUtils.deleteFile(partPath);
+      throw new IncompleteDownloadError(
+        `续传位置不匹配: ${contentRange}，将重新下载`
+      );
+    }
+
+    const total = resumed
+      ? rangeTotal
+      : parseInt(response.headers["content-length"] || "0", 10) || 0;
+    if (resumed && expectedSize && total && total !== expectedSize) {
+      response.data.destroy();
+      FileUtils.deleteFile(partPath);
+      throw new IncompleteDownloadError("镜像文件大小不一致，将重新下载");
+    }
+    if (!resumed) {
+      // 服务器不支持 Range 时从头下载
+      offset = 0;
+    }
+    if (maxFileSize && total > maxFileSize) {
+      response.data.destroy();
+      throw new LimitExceededError(
+        "fileSize",
+        total,
+        maxFileSize,
+        "downloading",
+        { videoId }
+      );
+    }
+
+    this.logger.debug(resumed ? "续传下载" : "开始下载", {
+      url,
+      offset,
+      total,
+      status: response.status,
+    });
+
+    const monitor = this.monitor(response.data, offset, total, options);
+    try {
+      await pipeline(
+        response.data,
+        fs.createWriteStream(partPath, { flags: resumed ? "a" : "w" }),
+        { signal }
+      );
+    } finally {
+      monitor.stop();
+    }
+
+    const size = FileUtils.getFileSize(partPath);
+    if (total > 0 && size < total) {
+      throw new IncompleteDownloadError(`下载不完整: ${size}/${total} 字节`);
+    }
+    if (total > 0 && size > total) {
+      FileUtils.deleteFile(partPath);
+      throw new IncompleteDownloadError(
+        `文件大小超出预期: ${size}/${total} 字节，将重新下载`
+      );
+    }
+
+    return total;
+  }
+
+  /**
+   * 从 url 续传到输出流：从 state.emitted 处以 Range 请求继续，
+   * 服务器不支持 Range 时丢弃已输出的部分
+   */
+  private async fetchToStream(
+    url: string,
+    output: PassThrough,
+    state: StreamState,
+    options: DownloadFileOptions
+  ): Promise<void> {
+    const { videoId, signal, maxFileSize } = options;
+    if (output.destroyed) {
+      throw new OutputClosedError("输出流已关闭");
+    }
+    if (state.expectedSize && state.emitted === state.expectedSize) {
+      return;
+    }
+
+    const offset = state.emitted;
+    const response = await this.http.axios.get(url, {
+      headers: offset > 0 ? { Range: `bytes=${offset}-` } : {},
+      responseType: "stream",
+      timeout: this.requestTimeout,
+      signal,
+    });
+    const data: Readable = response.data;
+
+    const contentRange = String(response.headers["content-range"] || "");
+    const resumed = response.status === 206;
+    if (resumed && !contentRange.startsWith(`bytes ${offset}-`)) {
+      data.destroy();
+      throw new IncompleteDownloadError(`续传位置不匹配: ${contentRange}`);
+    }
+    const total = resumed
+      ? parseInt(contentRange.split("/")[1] || "0", 10) || 0
+      : parseInt(response.headers["content-length"] || "0", 10) || 0;
+    if (state.expectedSize && total && total !== state.expectedSize) {
+      data.destroy();
+      throw new IncompleteDownloadError("镜像文件大小不一致");
+    }
+    state.expectedSize = state.expectedSize || total || undefined;
+    if (maxFileSize && total > maxFileSize) {
+      data.destroy();
+      throw new LimitExceededError(
+        "fileSize",
+        total,
+        maxFileSize,
+        "downloading",
+        { videoId }
+      );
+    }
+
+    this.logger.debug(resumed ? "续传流式下载" : "开始流式下载", {
+      url,
+      offset,
+      total,
+      status: response.status,
+    });
+
+    // 未续传时响应从文件开头开始，跳过已输出的部分
+    let skip = resumed ? 0 : offset;
+    const monitor = this.monitor(
+      data,
+      resumed ? offset : 0,
+      total,
+      options
+    );
+    try {
+      for await (const chunk of data) {
+        let buffer = chunk as Buffer;
+        if (skip > 0) {
+          const skipped = Math.min(skip, buffer.length);
+          skip -= skipped;
+          buffer = buffer.subarray(skipped);
+        }
+        if (buffer.length > 0) {
+          // 下游消费慢时等待 drain 不算停滞
+          monitor.pause();
+          await writeChunk(output, buffer);
+          monitor.resume();
+          state.emitted += buffer.length;
+        }
+      }
+    } catch (error) {
+      data.destroy();
+      throw error;
+    } finally {
+      monitor.stop();
+    }
+
+    if (state.expectedSize && state.emitted < state.expectedSize) {
+      throw new IncompleteDownloadError(
+        `下载不完整: ${state.emitted}/${state.expectedSize} 字节`
+      );
+    }
+  }
+
+  /**
+   * 监视响应流：报告进度、超过大小上限或停滞超时时以错误销毁流。
+   * 等待下游消费期间可以暂停停滞计时，返回停止、暂停和恢复监视的函数
+   */
+  private monitor(
+    data: Readable,
+    start: number,
+    total: number,
+    options: DownloadFileOptions
+  ): { stop: () => void; pause: () => void; resume: () => void } {
+    const { videoId, onProgress, maxFileSize } = options;
+    let downloaded = start;
+    let stallTimer: NodeJS.Timeout | undefined;
+    let paused = false;
+    const armStallTimer = () => {
+      clearTimeout(stallTimer);
+      if (paused) {
+        return;
+      }
+      stallTimer = setTimeout(() => {
+        data.destroy(
+          new IncompleteDownloadError(`超过 ${this.stallTimeout}ms 未收到数据`)
+        );
+      }, this.stallTimeout);
+    };
+
+    data.on("data", (chunk: Buffer) => {
+      downloaded += chunk.length;
+      // 响应头未给出大小或与实际不符时，按已下载字节数检查上限
+      if (maxFileSize && downloaded > maxFileSize) {
+        data.destroy(
+          new LimitExceededError(
+            "fileSize",
+            downloaded,
+            maxFileSize,
+            "downloading",
+            { videoId }
+          )
+        );
+        return;
+      }
+      armStallTimer();
+      onProgress?.({ downloaded, total });
+    });
+    armStallTimer();
+
+    return {
+      stop: () => clearTimeout(stallTimer),
+      pause: () => {
+        paused = true;
+        clearTimeout(stallTimer);
+      },
+      resume: () => {
+        paused = false;
+        armStallTimer();
+      },
+    };
+  }
+}
+
+/**
+ * 写入输出流，缓冲区满时等待 drain；输出流被销毁时以 OutputClosedError 结束
+ */
+function writeChunk(output: PassThrough, chunk: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (output.destroyed) {
+      reject(new OutputClosedError("输出流已关闭"));
+      return;
+    }
+    if (output.write(chunk)) {
+      resolve();
+      return;
+    }
+    const cleanup = () => {
+      output.off("drain", onDrain);
+      output.off("close", onClose);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new OutputClosedError("输出流已关闭"));
+    };
+    output.on("drain", onDrain);
+    output.on("close", onClose);
+  });
+}
@@ -0,0 +1,293 @@
+import { spawn } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pipeline } from "stream/promises";
+import ffmpeg from "fluent-ffmpeg";
+import { v4 as uuidv4 } from "uuid";
+import {
+  AudioInput,
+  Logger,
+  SpeechRecognizer,
+  Transcript,
+  TranscribeOptions,
+  TranscriptSegment,
+} from "../../types";
+import { CancelledError, SpeechRecognitionError } from "../../errors";
+import { AsyncUtils } from "../../utils/asyncUtils";
+import { AudioUtils } from "../../utils/audioUtils";
+import { FileUtils } from "../../utils/fileUtils";
+import defaultLogger from "../../utils/logger";
+import { buildRecognitionPrompt } from "./recognitionPrompt";
+
+export type LocalWhisperEngine = "whisper.cpp" | "faster-whisper";
+
+/**
+ * 本地 whisper 识别配置选项
+ */
+export interface LocalWhisperRecognizerOptions {
+  /** 识别引擎，默认: whisper.cpp */
+  engine?: LocalWhisperEngine;
+  /**
+   * 可执行文件路径，默认: whisper.cpp 为 whisper-cli，
+   * faster-whisper 为 whisper-ctranslate2
+   */
+  binaryPath?: string;
+  /** 模型：whisper.cpp 为 ggml 模型文件路径，faster-whisper 为模型名称或目录 */
+  model: string;
+  /** 识别语言，如 zh；不设置时由模型自动检测 */
+  language?: string;
+  /** 推理线程数 */
+  threads?: number;
+  /** 追加到命令行的额外参数 */
+  extraArgs?: string[];
+  /** 中间文件目录，默认: 系统临时目录 */
+  workDir?: string;
+  logger?: Logger;
+}
+
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: Array<{
+    text: string;
+    /** 毫秒偏移 */
+    offsets?: { from: number; to: number };
+  }>;
+}
+
+interface FasterWhisperOutput {
+  text?: string;
+  language?: string;
+  segments?: Array<{ start: number; end: number; text: string }>;
+}
+
+/**
+ * 调用本地 whisper.cpp / faster-whisper 可执行文件进行离线识别
+ */
+export class LocalWhisperRecognizer implements SpeechRecognizer {
+  readonly name: LocalWhisperEngine;
+  readonly model: string;
+  private readonly binaryPath: string;
+  private readonly language?: string;
+  private readonly threads?: number;
+  private readonly extraArgs: string[];
+  private readonly workDir: string;
+  private readonly logger: Logger;
+
+  constructor(options: LocalWhisperRecognizerOptions) {
+    if (!options.model) {
+      throw new Error("model is required");
+    }
+
+    this.name = options.engine || "whisper.cpp";
+    this.model = options.model;
+    this.binaryPath =
+      options.binaryPath ||
+      (this.name === "whisper.cpp" ? "whisper-cli" : "whisper-ctranslate2");
+    this.language = options.language;
+    this.threads = options.threads;
+    this.extraArgs = options.extraArgs || [];
+    this.workDir = options.workDir || os.tmpdir();
+    this.logger = options.logger ?? defaultLogger;
+  }
+
+  async transcribe(
+    audio: AudioInput,
+    options: TranscribeOptions = {}
+  ): Promise<Transcript> {
+    const { signal } = options;
+    AsyncUtils.throwIfAborted(signal, "speech_recognition");
+    const jobDir = path.join(this.workDir, `whisper_${uuidv4()}`);
+    FileUtils.ensureDir(jobDir);
+
+    try {
+      let inputPath: string;
+      if (typeof audio === "string") {
+        inputPath = audio;
+      } else {
+        inputPath = path.join(
+          jobDir,
+          FileUtils.sanitizeFilename(options.filename || "audio.mp3")
+        );
+        await pipeline(audio, fs.createWriteStream(inputPath), { signal });
+      }
+
+      return this.name === "whisper.cpp"
+        ? await this.runWhisperCpp(inputPath, jobDir, options)
+        : await this.runFasterWhisper(inputPath, jobDir, options);
+    } catch (error) {
+      if (signal?.aborted && !(error instanceof CancelledError)) {
+        throw new CancelledError("speech_recognition", "语音识别已取消", {
+          cause: error,
+        });
+      }
+      throw error;
+    } finally {
+      fs.rmSync(jobDir, { recursive: true, force: true });
+    }
+  }
+
+  private async runWhisperCpp(
+    inputPath: string,
+    jobDir: string,
+    options: TranscribeOptions
+  ): Promise<Transcript> {
+    const { signal } = options;
+    const language = options.language || this.language;
+    // whisper.cpp 只接受 16kHz 单声道 WAV
+    const wavPath = path.join(jobDir, "input.wav");
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg(inputPath)
+        .noVideo()
+        .audioFrequency(16000)
+        .audioChannels(1)
+        .audioCodec("pcm_s16le")
+        .on("end", () => {
+          dispose();
+          resolve();
+        })
+        .on("error", (error: Error) => {
+          dispose();
+          reject(error);
+        });
+      const dispose = AudioUtils.startCommand(
+        command,
+        () => command.save(wavPath),
+        signal,
+        "speech_recognition"
+      );
+    });
+
+    const outputBase = path.join(jobDir, "output");
+    const args = ["-m", this.model, "-f", wavPath, "-oj", "-of", outputBase];
+    if (language) args.push("-l", language);
+    if (this.threads) args.push("-t", String(this.threads));
+    args.push(...this.recognitionArgs(options, "--prompt", "--temperature"));
+
+    await this.run([...args, ...this.extraArgs], signal);
+
+    const output: WhisperCppOutput = JSON.parse(
+      fs.readFileSync(`${outputBase}.json`, "utf-8")
+    );
+    const items = output.transcription || [];
+    const segments: TranscriptSegment[] = items
+      .filter((item) => item.offsets)
+      .map((item) => ({
+        start: item.offsets!.from / 1000,
+        end: item.offsets!.to / 1000,
+        text: item.text.trim(),
+      }));
+
+    return {
+      text: items.map((item) => item.text.trim()).join(""),
+      language: output.result?.language || language,
+      duration:
+        segments.length > 0 ? segments[segments.length - 1].end : undefined,
+      segments: segments.length > 0 ? segments : undefined,
+      provider: this.name,
+      model: this.model,
+    };
+  }
+
+  private async runFasterWhisper(
+    inputPath: string,
+    jobDir: string,
+    options: TranscribeOptions
+  ): Promise<Transcript> {
+    const { signal } = options;
+    const language = options.language || this.language;
+    const args = [
+      inputPath,
+      "--model",
+      this.model,
+      "--output_dir",
+      jobDir,
+      "--output_format",
+      "json",
+    ];
+    if (language) args.push("--language", language);
+    if (this.threads) args.push("--threads", String(this.threads));
+    args.push(
+      ...this.recognitionArgs(options, "--initial_prompt", "--temperature")
+    );
+
+    await this.run([...args, ...this.extraArgs], signal);
+
+    const outputName = `${path.parse(inputPath).name}.json`;
+    const output: FasterWhisperOutput = JSON.parse(
+      fs.readFileSync(path.join(jobDir, outputName), "utf-8")
+    );
+    const segments = output.segments || [];
+
+    return {
+      text: (output.text || segments.map((s) => s.text).join("")).trim(),
+      language: output.language || language,
+      duration:
+        segments.length > 0 ? segments[segments.length - 1].end : undefined,
+      segments: segments.map((segment) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim(),
+      })),
+      provider: this.name,
+      model: this.model,
+    };
+  }
+
+  /**
+   * 提示文本（含热词）和温度对应的命令行参数，响应格式不适用于本地识别
+   */
+  private recognitionArgs(
+    options: TranscribeOptions,
+    promptFlag: string,
+    temperatureFlag: string
+  ): string[] {
+    const args: string[] = [];
+    const prompt = buildRecognitionPrompt(options);
+    if (prompt) args.push(promptFlag, prompt);
+    if (options.temperature !== undefined) {
+      args.push(temperatureFlag, String(options.temperature));
+    }
+    return args;
+  }
+
+  private run(args: string[], signal?: AbortSignal): Promise<void> {
+    this.logger.debug("执行本地语音识别命令", {
+      binaryPath: this.binaryPath,
+      args,
+    });
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.binaryPath, args, {
+        stdio: ["ignore", "ignore", "pipe"],
+        signal,
+        killSignal: "SIGKILL",
+      });
+      let stderr = "";
+
+      child.stderr?.on("data", (chunk: Buffer) => {
+        // 只保留末尾部分用于错误信息
+        stderr = (stderr + chunk.toString()).slice(-2000);
+      });
+      child.on("error", (error) => {
+        reject(
+          new SpeechRecognitionError(
+            `无法启动 ${this.binaryPath}: ${error.message}`,
+            { cause: error }
+          )
+        );
+      });
+      child.on("close", (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(
+            new SpeechRecognitionError(
+              `${this.binaryPath} 退出码 ${code}: ${stderr.trim()}`
+            )
+          );
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,240 @@
+import axios from "axios";
+import * as fs from "fs";
+import * as path from "path";
+import FormData from "form-data";
+import {
+  AudioInput,
+  Logger,
+  RecognitionOptions,
+  SpeechApiResponse,
+  SpeechRecognizer,
+  Transcript,
+  TranscribeOptions,
+} from "../../types";
+import { CancelledError, SpeechApiError } from "../../errors";
+import { createProxyAgents, ProxyAgents } from "../../http";
+import defaultLogger from "../../utils/logger";
+import { buildRecognitionPrompt } from "./recognitionPrompt";
+
+const RECOGNITION_PARAMETERS: (keyof RecognitionOptions)[] = [
+  "language",
+  "prompt",
+  "hotwords",
+  "temperature",
+  "responseFormat",
+];
+
+/**
+ * OpenAI 兼容转写接口的配置选项
+ */
+export interface OpenAICompatibleRecognizerOptions {
+  /** API 密钥 */
+  apiKey: string;
+  /** 转写接口完整 URL，如 https://api.openai.com/v1/audio/transcriptions */
+  baseUrl: string;
+  /** 识别模型 */
+  model: string;
+  /** 提供方名称，默认: openai-compatible */
+  name?: string;
+  /** 请求超时（毫秒），默认不限制 */
+  timeout?: number;
+  /**
+   * 响应格式，默认: json；设为 verbose_json 时请求分段时间戳
+   *（仅部分模型支持，如 whisper-1）
+   */
+  responseFormat?: "json" | "verbose_json";
+  /**
+   * 接口支持的识别参数，其余参数不发送，默认全部支持。
+   * hotwords 和 prompt 一起作为 prompt 字段发送
+   */
+  supportedParameters?: (keyof RecognitionOptions)[];
+  /** 代理地址，支持 http(s):// 和 socks://，默认读取环境变量中的代理 */
+  proxy?: string;
+  logger?: Logger;
+}
+
+/**
+ * 基于 multipart 上传的 OpenAI 兼容语音识别实现
+ */
+export class OpenAICompatibleRecognizer implements SpeechRecognizer {
+  readonly name: string;
+  readonly model: string;
+  protected readonly apiKey: string;
+  protected readonly baseUrl: string;
+  protected readonly timeout?: number;
+  protected readonly responseFormat: "json" | "verbose_json";
+  protected readonly supportedParameters: Set<keyof RecognitionOptions>;
+  protected readonly proxyAgents?: ProxyAgents;
+  protected readonly logger: Logger;
+
+  constructor(options: OpenAICompatibleRecognizerOptions) {
+    if (!options.apiKey) {
+      throw new Error("apiKey is required");
+    }
+
+    this.name = options.name || "openai-compatible";
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.baseUrl = options.baseUrl;
+    this.timeout = options.timeout;
+    this.responseFormat = options.responseFormat || "json";
+    this.supportedParameters = new Set(
+      options.supportedParameters || RECOGNITION_PARAMETERS
+    );
+    this.logger = options.logger ?? defaultLogger;
+    this.proxyAgents = options.proxy
+      ? createProxyAgents(options.proxy)
+      : undefined;
+  }
+
+  async transcribe(
+    audio: AudioInput,
+    options: TranscribeOptions = {}
+  ): Promise<Transcript> {
+    const formData = this.buildFormData(audio, options);
+
+    this.logger.debug("发送语音识别请求", {
+      provider: this.name,
+      apiUrl: this.baseUrl,
+      model: this.model,
+    });
+
+    let response;
+    try {
+      response = await axios.post<SpeechApiResponse>(this.baseUrl, formData, {
+        headers: {
+          ...formData.getHeaders(),
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        timeout: this.timeout,
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity,
+        signal: options.signal,
+        ...(this.proxyAgents ? { ...this.proxyAgents, proxy: false } : {}),
+      });
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new CancelledError("speech_recognition", "语音识别已取消", {
+          cause: error,
+        });
+      }
+      throw this.toApiError(error);
+    }
+
+    this.logger.debug("语音识别响应", {
+      provider: this.name,
+      apiStatus: response.status,
+      hasText: !!response.data.text,
+      segmentCount: response.data.segments?.length || 0,
+    });
+
+    return this.parseResponse(response.data);
+  }
+
+  /**
+   * 构造上传表单，子类可覆盖以追加提供方特有的参数
+   */
+  protected buildFormData(
+    audio: AudioInput,
+    options: TranscribeOptions
+  ): FormData {
+    const formData = new FormData();
+    if (typeof audio === "string") {
+      formData.append("file", fs.createReadStream(audio), {
+        filename: path.basename(audio),
+      });
+    } else {
+      formData.append("file", audio, {
+        filename: options.filename || "audio.mp3",
+      });
+    }
+    formData.append("model", this.model);
+
+    const params = this.pickSupportedParameters(options);
+    if ((params.responseFormat || this.responseFormat) === "verbose_json") {
+      formData.append("response_format", "verbose_json");
+      formData.append("timestamp_granularities[]", "segment");
+    }
+    if (params.language) {
+      formData.append("language", params.language);
+    }
+    const prompt = buildRecognitionPrompt(params);
+    if (prompt) {
+      formData.append("prompt", prompt);
+    }
+    if (params.temperature !== undefined) {
+      formData.append("temperature", String(params.temperature));
+    }
+    return formData;
+  }
+
+  /**
+   * 只保留接口支持的识别参数，忽略的参数记录到日志
+   */
+  protected pickSupportedParameters(
+    options: RecognitionOptions
+  ): RecognitionOptions {
+    const params: RecognitionOptions = {};
+    const ignored: string[] = [];
+    RECOGNITION_PARAMETERS.forEach((key) => {
+      if (options[key] === undefined) {
+        return;
+      }
+      if (this.supportedParameters.has(key)) {
+        Object.assign(params, { [key]: options[key] });
+      } else {
+        ignored.push(key);
+      }
+    });
+
+    if (ignored.length > 0) {
+      this.logger.debug("识别提供方不支持的参数已忽略", {
+        provider: this.name,
+        ignored,
+      });
+    }
+    return params;
+  }
+
+  /**
+   * 将请求异常转换为 SpeechApiError，尽量保留接口返回的错误描述
+   */
+  protected toApiError(error: unknown): SpeechApiError {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+      const detail =
+        data?.error?.message ||
+        data?.message ||
+        (typeof data === "string" ? data : "");
+      return new SpeechApiError(
+        `语音识别请求失败: ${detail || error.message}`,
+        { status: error.response?.status, provider: this.name, cause: error }
+      );
+    }
+
+    return new SpeechApiError(
+      `语音识别请求失败: ${error instanceof Error ? error.message : "未知错误"}`,
+      { provider: this.name, cause: error }
+    );
+  }
+
+  /**
+   * 将接口响应转换为统一的识别结果
+   */
+  protected parseResponse(data: SpeechApiResponse): Transcript {
+    return {
+      text: data.text || "",
+      language: typeof data.language === "string" ? data.language : undefined,
+      duration: typeof data.duration === "number" ? data.duration : undefined,
+      segments: Array.isArray(data.segments)
+        ? data.segments.map((segment) => ({
+            start: segment.start,
+            end: segment.end,
+            text: segment.text.trim(),
+          }))
+        : undefined,
+      provider: this.name,
+      model: this.model,
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { Logger } from "../../types";
+import { OpenAICompatibleRecognizer } from "./OpenAICompatibleRecognizer";
+
+export const OPENAI_TRANSCRIPTIONS_URL =
+  "https://api.openai.com/v1/audio/transcriptions";
+export const OPENAI_DEFAULT_MODEL = "whisper-1";
+
+/**
+ * OpenAI 语音识别配置选项
+ */
+export interface OpenAIRecognizerOptions {
+  /** OpenAI API 密钥 */
+  apiKey: string;
+  /** 识别模型，默认: whisper-1 */
+  model?: string;
+  /** 转写接口 URL，默认: https://api.openai.com/v1/audio/transcriptions */
+  baseUrl?: string;
+  /** 请求超时（毫秒） */
+  timeout?: number;
+  /** 响应格式，whisper-1 默认 verbose_json（带分段时间戳），其他模型默认 json */
+  responseFormat?: "json" | "verbose_json";
+  /** 代理地址，支持 http(s):// 和 socks://，默认读取环境变量中的代理 */
+  proxy?: string;
+  logger?: Logger;
+}
+
+/**
+ * OpenAI 语音识别
+ */
+export class OpenAIRecognizer extends OpenAICompatibleRecognizer {
+  constructor(options: OpenAIRecognizerOptions) {
+    const model = options.model || OPENAI_DEFAULT_MODEL;
+    super({
+      apiKey: options.apiKey,
+      baseUrl: options.baseUrl || OPENAI_TRANSCRIPTIONS_URL,
+      model,
+      name: "openai",
+      timeout: options.timeout,
+      proxy: options.proxy,
+      logger: options.logger,
+      // gpt-4o 系列转写模型不支持 verbose_json
+      responseFormat:
+        options.responseFormat ||
+        (model.startsWith("whisper") ? "verbose_json" : "json"),
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import { Logger } from "../../types";
+import { OpenAICompatibleRecognizer } from "./OpenAICompatibleRecognizer";
+
+export const SILICONFLOW_TRANSCRIPTIONS_URL =
+  "https://api.siliconflow.cn/v1/audio/transcriptions";
+export const SILICONFLOW_DEFAULT_MODEL = "FunAudioLLM/SenseVoiceSmall";
+
+/**
+ * SiliconFlow 语音识别配置选项
+ */
+export interface SiliconFlowRecognizerOptions {
+  /** SiliconFlow API 密钥 */
+  apiKey: string;
+  /** 识别模型，默认: FunAudioLLM/SenseVoiceSmall */
+  model?: string;
+  /** 转写接口 URL，默认: https://api.siliconflow.cn/v1/audio/transcriptions */
+  baseUrl?: string;
+  /** 请求超时（毫秒） */
+  timeout?: number;
+  /** 响应格式，默认: json（SenseVoice 不返回分段时间戳） */
+  responseFormat?: "json" | "verbose_json";
+  /** 代理地址，支持 http(s):// 和 socks://，默认读取环境变量中的代理 */
+  proxy?: string;
+  logger?: Logger;
+}
+
+/**
+ * SiliconFlow 语音识别（OpenAI 兼容接口）
+ */
+export class SiliconFlowRecognizer extends OpenAICompatibleRecognizer {
+  constructor(options: SiliconFlowRecognizerOptions) {
+    super({
+      apiKey: options.apiKey,
+      baseUrl: options.baseUrl || SILICONFLOW_TRANSCRIPTIONS_URL,
+      model: options.model || SILICONFLOW_DEFAULT_MODEL,
+      name: "siliconflow",
+      timeout: options.timeout,
+      proxy: options.proxy,
+      logger: options.logger,
+      responseFormat: options.responseFormat,
+      // 转写接口只接受 file、model 和 response_format，语言和提示文本不发送
+      supportedParameters: ["responseFormat"],
+    });
+  }
+}
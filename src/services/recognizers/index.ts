@@ -0,0 +1,22 @@
+export {
+  OpenAICompatibleRecognizer,
+  OpenAICompatibleRecognizerOptions,
+} from "./OpenAICompatibleRecognizer";
+export {
+  SiliconFlowRecognizer,
+  SiliconFlowRecognizerOptions,
+  SILICONFLOW_TRANSCRIPTIONS_URL,
+  SILICONFLOW_DEFAULT_MODEL,
+} from "./SiliconFlowRecognizer";
+export {
+  OpenAIRecognizer,
+  OpenAIRecognizerOptions,
+  OPENAI_TRANSCRIPTIONS_URL,
+  OPENAI_DEFAULT_MODEL,
+} from "./OpenAIRecognizer";
+export {
+  LocalWhisperRecognizer,
+  LocalWhisperRecognizerOptions,
+  LocalWhisperEngine,
+} from "./LocalWhisperRecognizer";
+export { buildRecognitionPrompt } from "./recognitionPrompt";
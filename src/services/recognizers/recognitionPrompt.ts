@@ -0,0 +1,22 @@
+import { RecognitionOptions } from "../../types";
+
+/**
+ * 合并提示文本和热词（去重），都为空时返回 undefined。
+ * 热词包含中文时用顿号分隔，否则用逗号分隔
+ */
+export function buildRecognitionPrompt(
+  options: Pick<RecognitionOptions, "prompt" | "hotwords">
+): string | undefined {
+  const hotwords = [
+    ...new Set(
+      (options.hotwords || []).map((word) => word.trim()).filter(Boolean)
+    ),
+  ];
+  const separator = hotwords.some((word) => /[\u3400-\u9fff]/.test(word))
+    ? "、"
+    : ", ";
+  const parts = [options.prompt?.trim(), hotwords.join(separator)].filter(
+    Boolean
+  );
+  return parts.length > 0 ? parts.join(" ") : undefined;
+}
@@ -0,0 +1,252 @@
+import {
+  Logger,
+  TranscriptSegment,
+  TranscriptTranslation,
+  Transcript,
+  TranslateOptions,
+  Translator,
+} from "../types";
+import { TranslationError } from "../errors";
+import { ChatCompletionClient } from "../analysis";
+import defaultLogger from "../utils/logger";
+
+export const DEFAULT_TRANSLATION_SYSTEM_PROMPT =
+  "你是专业的短视频字幕译者，把语音转写文本翻译为 {targetLanguage}。" +
+  "译文自然口语化，保留人名、品牌名等专有名词，不添加解释。";
+
+/**
+ * ChatTranslator 的配置选项
+ */
+export interface ChatTranslatorOptions {
+  /** 对话补全客户端 */
+  client: ChatCompletionClient;
+  /** 系统提示，默认: DEFAULT_TRANSLATION_SYSTEM_PROMPT，支持 {targetLanguage} 占位符 */
+  systemPrompt?: string;
+  /** 每次请求翻译的最大分段数，默认: 30 */
+  batchSize?: number;
+  /** 每次请求的原文最大字符数，默认: 2000 */
+  maxBatchLength?: number;
+  /** 是否要求接口以 JSON 模式输出，需要模型支持，默认: false */
+  jsonMode?: boolean;
+  logger?: Logger;
+}
+
+/** 译文不用空格连接的语言 */
+const CJK_LANGUAGES = /^(zh|ja|ko|yue)/i;
+
+/**
+ * 基于 OpenAI 兼容对话补全接口的翻译：分段按批次翻译，
+ * 译文条数与原文不一致时拆小批次重试，保证与原分段一一对应
+ */
+export class ChatTranslator implements Translator {
+  readonly name: string;
+  readonly model: string;
+  private readonly client: ChatCompletionClient;
+  private readonly systemPrompt: string;
+  private readonly batchSize: number;
+  private readonly maxBatchLength: number;
+  private readonly jsonMode: boolean;
+  private readonly logger: Logger;
+
+  constructor(options: ChatTranslatorOptions) {
+    this.client = options.client;
+    this.name = options.client.name;
+    this.model = options.client.model;
+    this.systemPrompt =
+      options.systemPrompt ?? DEFAULT_TRANSLATION_SYSTEM_PROMPT;
+    this.batchSize = Math.max(1, options.batchSize ?? 30);
+    this.maxBatchLength = Math.max(1, options.maxBatchLength ?? 2000);
+    this.jsonMode = options.jsonMode ?? false;
+    this.logger = options.logger ?? defaultLogger;
+  }
+
+  async translate(
+    transcript: Transcript,
+    options: TranslateOptions
+  ): Promise<TranscriptTranslation> {
+    const segments = transcript.segments?.filter((s) => s.text.trim());
+    let text: string;
+    let translatedSegments: TranscriptSegment[] | undefined;
+
+    if (segments && segments.length > 0) {
+      const batches = this.toBatches(segments.map((s) => s.text.trim()));
+      const translations: string[] = [];
+      for (const [index, batch] of batches.entries()) {
+        translations.push(...(await this.translateLines(batch, options)));
+        options.onProgress?.(index + 1, batches.length);
+      }
+      translatedSegments = segments.map((segment, index) => ({
+        start: segment.start,
+        end: segment.end,
+        text: translations[index],
+      }));
+      text = this.join(translations, options.targetLanguage);
+    } else {
+      const chunks = this.toTextChunks(transcript.text.trim());
+      const translations: string[] = [];
+      for (const [index, chunk] of chunks.entries()) {
+        translations.push(await this.translateText(chunk, options));
+        options.onProgress?.(index + 1, chunks.length);
+      }
+      text = this.join(translations, options.targetLanguage);
+    }
+
+    this.logger.debug("翻译完成", {
+      provider: this.name,
+      model: this.model,
+      targetLanguage: options.targetLanguage,
+      segmentCount: translatedSegments?.length || 0,
+      textLength: text.length,
+    });
+    return {
+      targetLanguage: options.targetLanguage,
+      text,
+      segments: translatedSegments,
+      provider: this.name,
+      model: this.model,
+    };
+  }
+
+  /**
+   * 按条数和字符数把分段文本分成批次
+   */
+  private toBatches(lines: string[]): string[][] {
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let length = 0;
+    lines.forEach((line) => {
+      if (
+        current.length > 0 &&
+        (current.length >= this.batchSize ||
+          length + line.length > this.maxBatchLength)
+      ) {
+        batches.push(current);
+        current = [];
+        length = 0;
+      }
+      current.push(line);
+      length += line.length;
+    });
+    if (current.length > 0) {
+      batches.push(current);
+    }
+    return batches;
+  }
+
+  /**
+   * 在句末标点或换行处把没有分段的文本切成不超过 maxBatchLength 的块
+   */
+  private toTextChunks(text: string): string[] {
+    const sentences = text.match(/[^。！？.!?\n]+[。！？.!?\n]*/g) || [text];
+    const chunks: string[] = [];
+    let current = "";
+    sentences.forEach((sentence) => {
+      if (current && current.length + sentence.length > this.maxBatchLength) {
+        chunks.push(current.trim());
+        current = "";
+      }
+      current += sentence;
+    });
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    return chunks;
+  }
+
+  /**
+   * 翻译一批分段，返回条数相同的译文；条数不一致时拆成两半分别重试
+   */
+  private async translateLines(
+    lines: string[],
+    options: TranslateOptions
+  ): Promise<string[]> {
+    const content = await this.client.complete(
+      [
+        { role: "system", content: this.buildSystemPrompt(options) },
+        {
+          role: "user",
+          content:
+            `逐条翻译下面 JSON 数组中的 ${lines.length} 条字幕，` +
+            `输出 JSON：{"translations": ["译文", ...]}，条数和顺序与原文一致。\n` +
+            JSON.stringify(lines),
+        },
+      ],
+      { json: this.jsonMode, stage: "translation", signal: options.signal }
+    );
+
+    const translations = this.parseTranslations(content);
+    if (translations && translations.length === lines.length) {
+      return translations;
+    }
+    if (lines.length === 1) {
+      // 单条字幕时模型有时直接输出译文
+      const plain = content.replace(/^```\w*\s*|\s*```$/g, "").trim();
+      if (!translations && plain && !plain.startsWith("{")) {
+        return [plain];
+      }
+      throw new TranslationError("模型输出的译文无法解析");
+    }
+
+    this.logger.debug("译文条数与原文不一致，拆分后重试", {
+      expected: lines.length,
+      actual: translations?.length ?? null,
+    });
+    const middle = Math.ceil(lines.length / 2);
+    return [
+      ...(await this.translateLines(lines.slice(0, middle), options)),
+      ...(await this.translateLines(lines.slice(middle), options)),
+    ];
+  }
+
+  /**
+   * 翻译一段没有分段的文本
+   */
+  private async translateText(
+    text: string,
+    options: TranslateOptions
+  ): Promise<string> {
+    const content = await this.client.complete(
+      [
+        { role: "system", content: this.buildSystemPrompt(options) },
+        { role: "user", content: `翻译下面的文本，只输出译文：\n\n${text}` },
+      ],
+      { stage: "translation", signal: options.signal }
+    );
+    return content.trim();
+  }
+
+  private buildSystemPrompt(options: TranslateOptions): string {
+    const prompt = this.systemPrompt.replace(
+      /\{targetLanguage\}/g,
+      options.targetLanguage
+    );
+    return options.sourceLanguage
+      ? `${prompt}\n原文语言: ${options.sourceLanguage}`
+      : prompt;
+  }
+
+  /**
+   * 解析 {"translations": [...]}，容忍代码块包裹，也接受直接输出的数组
+   */
+  private parseTranslations(content: string): string[] | null {
+    const match = content.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
+    if (!match) {
+      return null;
+    }
+    try {
+      const data = JSON.parse(match[0]);
+      const list = Array.isArray(data) ? data : data?.translations;
+      return Array.isArray(list)
+        ? list.map((item) => (typeof item === "string" ? item.trim() : ""))
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private join(texts: string[], targetLanguage: string): string {
+    return texts
+      .filter(Boolean)
+      .join(CJK_LANGUAGES.test(targetLanguage) ? "" : " ");
+  }
+}
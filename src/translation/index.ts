@@ -0,0 +1,6 @@
+export {
+  ChatTranslator,
+  ChatTranslatorOptions,
+  DEFAULT_TRANSLATION_SYSTEM_PROMPT,
+} from "./ChatTranslator";
+export { LANGUAGE_TAG_PATTERN, isLanguageTag } from "./languageTag";
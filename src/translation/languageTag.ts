@@ -0,0 +1,12 @@
+/**
+ * 目标语言标签，如 en、ja、zh-Hant、pt-BR。
+ * 译文会写入以语言标签为后缀的文件，只允许字母、数字和连字符，避免路径穿越
+ */
+export const LANGUAGE_TAG_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+/**
+ * 是否为有效的目标语言标签
+ */
+export function isLanguageTag(value: string): boolean {
+  return LANGUAGE_TAG_PATTERN.test(value);
+}
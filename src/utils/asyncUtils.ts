@@ -0,0 +1,103 @@
+import { ProcessingStage } from "../types";
+import { CancelledError } from "../errors";
+
+export class AsyncUtils {
+  /**
+   * 等待指定毫秒数，signal 触发时提前以 CancelledError 拒绝
+   */
+  static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new CancelledError());
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        dispose();
+        resolve();
+      }, ms);
+      const dispose = AsyncUtils.onAbort(signal, () => {
+        clearTimeout(timer);
+        reject(new CancelledError());
+      });
+    });
+  }
+
+  /**
+   * signal 已触发时抛出 CancelledError
+   */
+  static throwIfAborted(
+    signal: AbortSignal | undefined,
+    stage: ProcessingStage = "parsing"
+  ): void {
+    if (signal?.aborted) {
+      throw new CancelledError(stage);
+    }
+  }
+
+  /**
+   * 监听取消信号，返回用于移除监听的函数；signal 已触发时立即调用 handler
+   */
+  static onAbort(
+    signal: AbortSignal | undefined,
+    handler: () => void
+  ): () => void {
+    if (!signal) {
+      return () => undefined;
+    }
+    if (signal.aborted) {
+      handler();
+      return () => undefined;
+    }
+
+    signal.addEventListener("abort", handler, { once: true });
+    return () => signal.removeEventListener("abort", handler);
+  }
+
+  /**
+   * 以有限并发执行异步任务，结果顺序与输入一致。
+   * 任一任务失败后不再开始新的任务，并通过传给 worker 的 signal 中止进行中的任务，
+   * 等进行中的任务结束后以第一个错误拒绝；外部 signal 触发时同样中止进行中的任务
+   */
+  static async mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+    signal?: AbortSignal
+  ): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    const limit = Math.max(1, Math.min(concurrency, items.length));
+    const controller = new AbortController();
+    const dispose = AsyncUtils.onAbort(signal, () => controller.abort());
+    let nextIndex = 0;
+    let failure: { error: unknown } | undefined;
+
+    const runners = Array.from({ length: limit }, async () => {
+      while (!failure && nextIndex < items.length) {
+        const index = nextIndex++;
+        try {
+          results[index] = await worker(
+            items[index],
+            index,
+            controller.signal
+          );
+        } catch (error) {
+          if (!failure) {
+            failure = { error };
+            controller.abort();
+          }
+        }
+      }
+    });
+
+    try {
+      await Promise.all(runners);
+    } finally {
+      dispose();
+    }
+    if (failure) {
+      throw failure.error;
+    }
+    return results;
+  }
+}
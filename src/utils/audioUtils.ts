@@ -0,0 +1,323 @@
+import path from "path";
+import ffmpeg, { FfmpegCommand } from "fluent-ffmpeg";
+import {
+  AudioFormat,
+  AudioProfile,
+  AudioProfileName,
+  ProcessingStage,
+} from "../types";
+import { AsyncUtils } from "./asyncUtils";
+
+/**
+ * 静音区间，时间单位为秒
+ */
+export interface SilenceInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * 音频分片区间，时间单位为秒
+ */
+export interface AudioChunkRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 内置的音频配置
+ */
+export const AUDIO_PROFILES: Record<AudioProfileName, AudioProfile> = {
+  original: { name: "original", format: "mp3" },
+  speech: {
+    name: "speech",
+    format: "flac",
+    sampleRate: 16000,
+    channels: 1,
+    highpass: 80,
+    loudnorm: true,
+  },
+  "speech-compact": {
+    name: "speech-compact",
+    format: "opus",
+    sampleRate: 16000,
+    channels: 1,
+    bitrate: "24k",
+    highpass: 80,
+    loudnorm: true,
+  },
+};
+
+const FORMAT_OUTPUTS: Record<
+  AudioFormat,
+  { extension: string; container: string; codec: string }
+> = {
+  mp3: { extension: ".mp3", container: "mp3", codec: "libmp3lame" },
+  flac: { extension: ".flac", container: "flac", codec: "flac" },
+  wav: { extension: ".wav", container: "wav", codec: "pcm_s16le" },
+  opus: { extension: ".ogg", container: "ogg", codec: "libopus" },
+};
+
+/** 裁剪静音使用的阈值和最短时长 */
+const TRIM_SILENCE_FILTER =
+  "silenceremove=start_periods=1:start_duration=0.2:start_threshold=-50dB";
+
+export class AudioUtils {
+  /**
+   * 解析音频配置：名称对应内置配置，自定义配置补全名称
+   */
+  static resolveProfile(profile: AudioProfileName | AudioProfile): AudioProfile {
+    if (typeof profile === "string") {
+      const builtin = AUDIO_PROFILES[profile];
+      if (!builtin) {
+        throw new Error(`未知的音频配置: ${profile}`);
+      }
+      return { ...builtin };
+    }
+    if (!FORMAT_OUTPUTS[profile.format]) {
+      throw new Error(`不支持的音频格式: ${profile.format}`);
+    }
+    return { name: "custom", ...profile };
+  }
+
+  /**
+   * 音频格式对应的文件扩展名（含点），如 .mp3、.ogg
+   */
+  static getExtension(format: AudioFormat): string {
+    return FORMAT_OUTPUTS[format].extension;
+  }
+
+  /**
+   * 按音频配置设置 ffmpeg 命令的编码、采样率、声道和滤镜
+   */
+  static applyProfile(
+    command: FfmpegCommand,
+    profile: AudioProfile
+  ): FfmpegCommand {
+    const output = FORMAT_OUTPUTS[profile.format];
+    command.noVideo().audioCodec(output.codec).format(output.container);
+
+    if (profile.bitrate) {
+      command.audioBitrate(profile.bitrate);
+    } else if (profile.format === "mp3") {
+      command.audioQuality(0);
+    } else if (profile.format === "opus") {
+      command.audioBitrate("32k");
+    }
+    if (profile.channels) {
+      command.audioChannels(profile.channels);
+    }
+    if (profile.sampleRate) {
+      command.audioFrequency(profile.sampleRate);
+    } else if (profile.loudnorm) {
+      // loudnorm 会把采样率提高到 192kHz，未指定时降到 48kHz
+      command.audioFrequency(48000);
+    }
+
+    const filters: string[] = [];
+    if (profile.highpass) {
+      filters.push(`highpass=f=${profile.highpass}`);
+    }
+    if (profile.denoise) {
+      filters.push("afftdn");
+    }
+    if (profile.trimSilence) {
+      // 反转后再裁剪一次以去掉结尾的静音
+      filters.push(
+        TRIM_SILENCE_FILTER,
+        "areverse",
+        TRIM_SILENCE_FILTER,
+        "areverse"
+      );
+    }
+    if (profile.loudnorm) {
+      filters.push("loudnorm=I=-16:TP=-1.5:LRA=11");
+    }
+    if (filters.length > 0) {
+      command.audioFilters(filters);
+    }
+    return command;
+  }
+
+  /**
+   * 使用 ffprobe 获取媒体时长（秒）
+   */
+  static probeDuration(filePath: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(filePath, (error, data) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        const duration = Number(data.format.duration);
+        if (!Number.isFinite(duration)) {
+          reject(new Error(`无法获取媒体时长: ${filePath}`));
+          return;
+        }
+        resolve(duration);
+      });
+    });
+  }
+
+  /**
+   * 启动 ffmpeg 命令，取消时结束进程：启动前再检查一次取消信号，
+   * 进程启动（start 事件）后才监听取消，因为启动前调用 kill 不会生效。
+   * 已取消时抛出 CancelledError；返回移除监听的函数，在 end / error 中调用
+   * @param start 启动命令，如 `() => command.save(outputPath)`
+   */
+  static startCommand(
+    command: FfmpegCommand,
+    start: () => void,
+    signal?: AbortSignal,
+    stage: ProcessingStage = "extracting_audio"
+  ): () => void {
+    AsyncUtils.throwIfAborted(signal, stage);
+
+    let finished = false;
+    let dispose: () => void = () => undefined;
+    command.on("start", () => {
+      if (!finished) {
+        dispose = AsyncUtils.onAbort(signal, () => command.kill("SIGKILL"));
+      }
+    });
+    start();
+
+    return () => {
+      finished = true;
+      dispose();
+    };
+  }
+
+  /**
+   * 使用 ffmpeg silencedetect 滤镜检测静音区间
+   * @param noiseThreshold 静音阈值，如 -35dB
+   * @param minSilenceDuration 最短静音时长（秒）
+   * @param signal 取消信号，触发后结束 ffmpeg 进程
+   */
+  static detectSilences(
+    filePath: string,
+    noiseThreshold: string = "-35dB",
+    minSilenceDuration: number = 0.5,
+    signal?: AbortSignal
+  ): Promise<SilenceInterval[]> {
+    AsyncUtils.throwIfAborted(signal, "speech_recognition");
+
+    return new Promise((resolve, reject) => {
+      const silences: SilenceInterval[] = [];
+      let currentStart: number | null = null;
+
+      const command = ffmpeg(filePath)
+        .noVideo()
+        .audioFilters(`silencedetect=n=${noiseThreshold}:d=${minSilenceDuration}`)
+        .format("null")
+        .output("-")
+        .on("stderr", (line: string) => {
+          const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+          if (startMatch) {
+            currentStart = Math.max(0, parseFloat(startMatch[1]));
+            return;
+          }
+          const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+          if (endMatch && currentStart !== null) {
+            silences.push({ start: currentStart, end: parseFloat(endMatch[1]) });
+            currentStart = null;
+          }
+        })
+        .on("end", () => {
+          dispose();
+          resolve(silences);
+        })
+        .on("error", (error: Error) => {
+          dispose();
+          reject(error);
+        });
+      const dispose = AudioUtils.startCommand(
+        command,
+        () => command.run(),
+        signal,
+        "speech_recognition"
+      );
+    });
+  }
+
+  /**
+   * 根据静音区间规划分片：每片不超过 maxChunkDuration，
+   * 优先在靠近上限的静音中点切分，找不到静音时硬切
+   */
+  static planChunks(
+    duration: number,
+    silences: SilenceInterval[],
+    maxChunkDuration: number
+  ): AudioChunkRange[] {
+    const chunks: AudioChunkRange[] = [];
+    let cursor = 0;
+
+    while (duration - cursor > maxChunkDuration) {
+      const hardLimit = cursor + maxChunkDuration;
+      // 只接受后半段的静音，避免分片过短
+      const minCut = cursor + maxChunkDuration / 2;
+      let cut = hardLimit;
+
+      for (const silence of silences) {
+        const midpoint = (silence.start + silence.end) / 2;
+        if (midpoint > minCut && midpoint <= hardLimit) {
+          cut = midpoint;
+        }
+      }
+
+      chunks.push({ start: cursor, end: cut });
+      cursor = cut;
+    }
+
+    chunks.push({ start: cursor, end: duration });
+    return chunks;
+  }
+
+  /**
+   * 按区间切分音频（流复制，不重新编码），返回分片文件路径
+   */
+  static async splitAudio(
+    filePath: string,
+    chunks: AudioChunkRange[],
+    outputDir: string,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const extension = path.extname(filePath);
+    const chunkPaths: string[] = [];
+
+    for (let index = 0; index < chunks.length; index++) {
+      const chunk = chunks[index];
+      const chunkPath = path.join(
+        outputDir,
+        `chunk_${String(index).padStart(3, "0")}${extension}`
+      );
+
+      AsyncUtils.throwIfAborted(signal, "speech_recognition");
+      await new Promise<void>((resolve, reject) => {
+        const command = ffmpeg(filePath)
+          .setStartTime(chunk.start)
+          .setDuration(chunk.end - chunk.start)
+          .noVideo()
+          .audioCodec("copy")
+          .on("end", () => {
+            dispose();
+            resolve();
+          })
+          .on("error", (error: Error) => {
+            dispose();
+            reject(error);
+          });
+        const dispose = AudioUtils.startCommand(
+          command,
+          () => command.save(chunkPath),
+          signal,
+          "speech_recognition"
+        );
+      });
+
+      chunkPaths.push(chunkPath);
+    }
+
+    return chunkPaths;
+  }
+}
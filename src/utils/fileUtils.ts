@@ -21,9 +21,13 @@ export class FileUtils {
 
   /**
    * 生成唯一的临时文件路径
+   * @param tempDir 临时文件目录，默认: ./temp
    */
-  static generateTempFilePath(originalName: string, extension: string): string {
-    const tempDir = path.join(process.cwd(), "temp");
+  static generateTempFilePath(
+    originalName: string,
+    extension: string,
+    tempDir: string = path.join(process.cwd(), "temp")
+  ): string {
     this.ensureDir(tempDir);
 
     const uuid = uuidv4();
@@ -49,6 +53,44 @@ export class FileUtils {
     }
   }
 
+  /**
+   * 移动文件，跨设备时退回到复制后删除
+   */
+  static moveFile(sourcePath: string, targetPath: string): void {
+    this.ensureDir(path.dirname(targetPath));
+    try {
+      fs.renameSync(sourcePath, targetPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+        throw error;
+      }
+      fs.copyFileSync(sourcePath, targetPath);
+      fs.unlinkSync(sourcePath);
+    }
+  }
+
+  /**
+   * 锁文件中记录的 pid 是否属于仍在运行的进程
+   */
+  static isLockHeld(lockPath: string): boolean {
+    let pid: number;
+    try {
+      pid = Number(fs.readFileSync(lockPath, "utf-8"));
+    } catch {
+      return false;
+    }
+    if (!Number.isInteger(pid) || pid <= 0) {
+      return false;
+    }
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM 表示进程存在但无权发送信号
+      return (error as NodeJS.ErrnoException).code === "EPERM";
+    }
+  }
+
   /**
    * 删除多个文件
    */
@@ -72,11 +114,14 @@ export class FileUtils {
   }
 
   /**
-   * 清理临时目录中的旧文件（超过指定时间的文件）
+   * 清理临时目录中的旧文件和目录（超过指定时间未修改的）
+   * @param tempDir 临时文件目录，默认: ./temp
    */
-  static cleanupTempFiles(maxAgeMinutes: number = 60): void {
+  static cleanupTempFiles(
+    maxAgeMinutes: number = 60,
+    tempDir: string = path.join(process.cwd(), "temp")
+  ): void {
     try {
-      const tempDir = path.join(process.cwd(), "temp");
       if (!fs.existsSync(tempDir)) return;
 
       const files = fs.readdirSync(tempDir);
@@ -88,7 +133,7 @@ export class FileUtils {
         const stats = fs.statSync(filePath);
 
         if (now - stats.mtime.getTime() > maxAge) {
-          this.deleteFile(filePath);
+          fs.rmSync(filePath, { recursive: true, force: true });
         }
       });
     } catch (error) {
@@ -96,6 +141,21 @@ export class FileUtils {
     }
   }
 
+  /**
+   * 根据 URL 或 content-type 推断图片扩展名，默认: jpeg
+   */
+  static guessImageExtension(url: string, contentType?: string): string {
+    const fromType = contentType?.match(/image\/(jpeg|jpg|png|webp|gif|heic)/i);
+    if (fromType) {
+      return fromType[1].toLowerCase();
+    }
+
+    const fromUrl = url
+      .split("?")[0]
+      .match(/\.(jpeg|jpg|png|webp|gif|heic)(?:$|~)/i);
+    return fromUrl ? fromUrl[1].toLowerCase() : "jpeg";
+  }
+
   /**
    * 获取文件大小（字节）
    */
@@ -108,6 +168,27 @@ export class FileUtils {
     }
   }
 
+  /**
+   * 获取文件或目录（递归）占用的字节数，不存在时返回 0
+   */
+  static getPathSize(targetPath: string): number {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(targetPath);
+    } catch (error) {
+      return 0;
+    }
+    if (!stats.isDirectory()) {
+      return stats.size;
+    }
+    return fs
+      .readdirSync(targetPath)
+      .reduce(
+        (total, name) => total + this.getPathSize(path.join(targetPath, name)),
+        0
+      );
+  }
+
   /**
    * 格式化文件大小
    */
@@ -118,4 +199,23 @@ export class FileUtils {
     const i = Math.floor(Math.log(bytes) / Math.log(1024));
     return Math.round((bytes / Math.pow(1024, i)) * 100) / 100 + " " + sizes[i];
   }
+
+  /**
+   * 解析文件大小：数字按字节处理，字符串支持 "100MB"、"1.5 GB"、"500k" 等（1024 进制）
+   */
+  static parseFileSize(value: number | string): number {
+    if (typeof value === "number") {
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`无效的文件大小: ${value}`);
+      }
+      return Math.floor(value);
+    }
+
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?)i?b?$/i);
+    if (!match) {
+      throw new Error(`无效的文件大小: ${value}`);
+    }
+    const exponent = ["", "k", "m", "g", "t"].indexOf(match[2].toLowerCase());
+    return Math.floor(parseFloat(match[1]) * Math.pow(1024, exponent));
+  }
 }
@@ -0,0 +1,47 @@
+import { LogUtils } from "./logger";
+import { PinoLikeLogger } from "../types";
+
+describe("LogUtils.fromPino", () => {
+  it("按 pino 的 (meta, message) 顺序转发", () => {
+    const calls: Array<[string, unknown[]]> = [];
+    const record =
+      (level: string) =>
+      (...args: unknown[]) =>
+        calls.push([level, args]);
+    const pino: PinoLikeLogger = {
+      debug: record("debug"),
+      info: record("info"),
+      warn: record("warn"),
+      error: record("error"),
+    };
+
+    const logger = LogUtils.fromPino(pino);
+    logger.info("开始解析", { videoId: "1" });
+    logger.error("解析失败");
+
+    expect(calls).toEqual([
+      ["info", [{ videoId: "1" }, "开始解析"]],
+      ["error", [{}, "解析失败"]],
+    ]);
+  });
+
+  it("与 wrap 组合时附加日志上下文", () => {
+    const info = jest.fn();
+    const pino: PinoLikeLogger = {
+      debug: jest.fn(),
+      info,
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+
+    const logger = LogUtils.wrap(LogUtils.fromPino(pino));
+    LogUtils.withContext({ correlationId: "job-1" }, () =>
+      logger.info("完成", { textLength: 3 })
+    );
+
+    expect(info).toHaveBeenCalledWith(
+      { correlationId: "job-1", textLength: 3 },
+      "完成"
+    );
+  });
+});
@@ -1,44 +1,192 @@
-import winston from "winston";
-import path from "path";
+import { AsyncLocalStorage } from "async_hooks";
 import fs from "fs";
+import path from "path";
+import winston from "winston";
+import { Logger, LogMeta, PinoLikeLogger } from "../types";
+
+type LogLevel = keyof Logger;
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
 
-// 确保日志目录存在
-const logDir = path.join(process.cwd(), "logs");
-if (!fs.existsSync(logDir)) {
-  fs.mkdirSync(logDir, { recursive: true });
+/** 值需要整体隐藏的字段名 */
+const SENSITIVE_KEY =
+  /api[-_]?key|authorization|token|secret|password|cookie|^html(Preview|Content)?$/i;
+
+const contextStorage = new AsyncLocalStorage<LogMeta>();
+
+let defaultLogger: Logger | undefined;
+
+/**
+ * 创建默认日志：输出到控制台，设置 LOG_FILE 时同时写入该文件。
+ * 只在首次写日志时创建，导入本模块不会访问文件系统
+ */
+export function createDefaultLogger(): Logger {
+  const production = process.env.NODE_ENV === "production";
+  const instance = winston.createLogger({
+    level: process.env.LOG_LEVEL || "info",
+    format: winston.format.combine(
+      winston.format.timestamp({
+        format: "YYYY-MM-DD HH:mm:ss",
+      }),
+      winston.format.errors({ stack: true }),
+      winston.format.json()
+    ),
+    defaultMeta: { service: "douyin-text-extractor" },
+    transports: [
+      new winston.transports.Console({
+        format: production
+          ? undefined
+          : winston.format.combine(
+              winston.format.colorize(),
+              winston.format.simple()
+            ),
+      }),
+    ],
+  });
+
+  const logFile = process.env.LOG_FILE;
+  if (logFile) {
+    try {
+      fs.mkdirSync(path.dirname(logFile), { recursive: true });
+      instance.add(new winston.transports.File({ filename: logFile }));
+    } catch (error) {
+      instance.warn("无法写入日志文件，仅输出到控制台", {
+        logFile,
+        error: error instanceof Error ? error.message : "未知错误",
+      });
+    }
+  }
+
+  return instance;
 }
 
-const logger = winston.createLogger({
-  level: process.env.LOG_LEVEL || "info",
-  format: winston.format.combine(
-    winston.format.timestamp({
-      format: "YYYY-MM-DD HH:mm:ss",
-    }),
-    winston.format.errors({ stack: true }),
-    winston.format.json()
-  ),
-  defaultMeta: { service: "douyin-text-extractor" },
-  transports: [
-    new winston.transports.File({
-      filename: path.join(logDir, "error.log"),
-      level: "error",
-    }),
-    new winston.transports.File({
-      filename: path.join(logDir, "combined.log"),
-    }),
-  ],
-});
+/**
+ * 获取默认日志（首次调用时创建）
+ */
+export function getDefaultLogger(): Logger {
+  if (!defaultLogger) {
+    defaultLogger = createDefaultLogger();
+  }
+  return defaultLogger;
+}
 
-// 在开发环境下也输出到控制台
-if (process.env.NODE_ENV !== "production") {
-  logger.add(
-    new winston.transports.Console({
-      format: winston.format.combine(
-        winston.format.colorize(),
-        winston.format.simple()
-      ),
-    })
-  );
+/**
+ * 替换未注入 logger 的组件所使用的默认日志
+ */
+export function setDefaultLogger(logger: Logger): void {
+  defaultLogger = logger;
 }
 
+export class LogUtils {
+  /**
+   * 在日志上下文中执行 fn，期间（包括其中的异步调用）写出的每条日志
+   * 都会附加 context 中的字段，嵌套调用时与外层上下文合并
+   */
+  static withContext<T>(context: LogMeta, fn: () => T): T {
+    return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+  }
+
+  /**
+   * 当前的日志上下文
+   */
+  static getContext(): LogMeta | undefined {
+    return contextStorage.getStore();
+  }
+
+  /**
+   * 包装日志：附加当前上下文中的字段（如 correlationId），
+   * redact 为 true 时隐藏敏感字段和链接
+   */
+  static wrap(target: Logger, options: { redact?: boolean } = {}): Logger {
+    const wrapped = {} as Logger;
+    LOG_LEVELS.forEach((level) => {
+      wrapped[level] = (message: string, meta?: LogMeta) => {
+        const merged = { ...contextStorage.getStore(), ...meta };
+        const hasMeta = Object.keys(merged).length > 0;
+        if (options.redact) {
+          target[level](
+            LogUtils.redactString(message),
+            hasMeta ? (LogUtils.redact(merged) as LogMeta) : undefined
+          );
+        } else {
+          target[level](message, hasMeta ? merged : undefined);
+        }
+      };
+    });
+    return wrapped;
+  }
+
+  /**
+   * 将 pino 风格 (meta, message) 的日志转换为 Logger
+   * @example
+   * ```typescript
+   * const service = new DouyinService({ logger: LogUtils.fromPino(pino()) });
+   * ```
+   */
+  static fromPino(target: PinoLikeLogger): Logger {
+    const adapted = {} as Logger;
+    LOG_LEVELS.forEach((level) => {
+      adapted[level] = (message: string, meta?: LogMeta) =>
+        target[level](meta ?? {}, message);
+    });
+    return adapted;
+  }
+
+  /**
+   * 隐藏敏感字段（密钥、cookie、页面内容）的值，并处理字符串中的链接
+   */
+  static redact(value: unknown, depth: number = 0): unknown {
+    if (typeof value === "string") {
+      return LogUtils.redactString(value);
+    }
+    if (depth > 5 || value === null || typeof value !== "object") {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => LogUtils.redact(item, depth + 1));
+    }
+    if (value instanceof Error) {
+      return LogUtils.redactString(value.message);
+    }
+
+    const result: LogMeta = {};
+    Object.entries(value).forEach(([key, item]) => {
+      result[key] = SENSITIVE_KEY.test(key)
+        ? "[REDACTED]"
+        : LogUtils.redact(item, depth + 1);
+    });
+    return result;
+  }
+
+  /**
+   * 隐藏字符串中的分享短链、链接查询参数和 Bearer 令牌
+   */
+  static redactString(text: string): string {
+    return text
+      .replace(/Bearer\s+[^\s"']+/gi, "Bearer [REDACTED]")
+      .replace(/https?:\/\/[^\s"'<>]+/gi, (match) => {
+        try {
+          const url = new URL(match);
+          // 分享短链可关联到分享者，整体隐藏路径
+          if (/(^|\.)v\.douyin\.com$/i.test(url.hostname)) {
+            return `${url.origin}/***`;
+          }
+          return `${url.origin}${url.pathname}${url.search ? "?***" : ""}`;
+        } catch {
+          return "[URL]";
+        }
+      });
+  }
+}
+
+/**
+ * 默认日志，未注入 logger 的组件使用
+ */
+const logger: Logger = LogUtils.wrap({
+  debug: (message, meta) => getDefaultLogger().debug(message, meta),
+  info: (message, meta) => getDefaultLogger().info(message, meta),
+  warn: (message, meta) => getDefaultLogger().warn(message, meta),
+  error: (message, meta) => getDefaultLogger().error(message, meta),
+});
+
 export default logger;
@@ -0,0 +1,104 @@
+import fs from "fs";
+import path from "path";
+import { SubtitleFormat, TranscriptSegment } from "../types";
+import { FileUtils } from "./fileUtils";
+
+export class SubtitleUtils {
+  /**
+   * 格式化时间戳，如 00:01:02,345（SRT）或 00:01:02.345（WebVTT）
+   */
+  static formatTimestamp(seconds: number, separator: "," | "."): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+
+    const pad = (value: number, length: number = 2) =>
+      String(value).padStart(length, "0");
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+  }
+
+  /**
+   * 生成 SRT 字幕内容
+   */
+  static toSrt(segments: TranscriptSegment[]): string {
+    return segments
+      .map(
+        (segment, index) =>
+          `${index + 1}\n` +
+          `${this.formatTimestamp(segment.start, ",")} --> ${this.formatTimestamp(segment.end, ",")}\n` +
+          `${segment.text}\n`
+      )
+      .join("\n");
+  }
+
+  /**
+   * 生成 WebVTT 字幕内容
+   */
+  static toVtt(segments: TranscriptSegment[]): string {
+    const cues = segments.map(
+      (segment) =>
+        `${this.formatTimestamp(segment.start, ".")} --> ${this.formatTimestamp(segment.end, ".")}\n` +
+        `${segment.text}\n`
+    );
+    return ["WEBVTT\n", ...cues].join("\n");
+  }
+
+  /**
+   * 按格式生成字幕内容
+   */
+  static render(segments: TranscriptSegment[], format: SubtitleFormat): string {
+    return format === "srt" ? this.toSrt(segments) : this.toVtt(segments);
+  }
+
+  /**
+   * 合并原文和译文分段（按位置对应），每条原文在上、译文在下，
+   * 可直接用于生成双语字幕
+   */
+  static toBilingualSegments(
+    original: TranscriptSegment[],
+    translated: TranscriptSegment[]
+  ): TranscriptSegment[] {
+    return original.map((segment, index) => ({
+      ...segment,
+      text: [segment.text, translated[index]?.text]
+        .filter(Boolean)
+        .join("\n"),
+    }));
+  }
+
+  /**
+   * 生成对照文本：每条原文后跟对应的译文，条目之间空一行
+   */
+  static toBilingualText(
+    original: TranscriptSegment[],
+    translated: TranscriptSegment[]
+  ): string {
+    return this.toBilingualSegments(original, translated)
+      .map((segment) => segment.text)
+      .join("\n\n");
+  }
+
+  /**
+   * 写入字幕文件，文件路径为 `${basePath}.${format}`，目录不存在时自动创建
+   */
+  static writeSubtitleFiles(
+    segments: TranscriptSegment[],
+    basePath: string,
+    formats: SubtitleFormat[]
+  ): Partial<Record<SubtitleFormat, string>> {
+    const files: Partial<Record<SubtitleFormat, string>> = {};
+    if (formats.length > 0) {
+      FileUtils.ensureDir(path.dirname(basePath));
+    }
+
+    formats.forEach((format) => {
+      const filePath = `${basePath}.${format}`;
+      fs.writeFileSync(filePath, this.render(segments, format), "utf-8");
+      files[format] = filePath;
+    });
+
+    return files;
+  }
+}
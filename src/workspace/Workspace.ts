@@ -0,0 +1,92 @@
+import fs from "fs";
+import path from "path";
+import { Logger } from "../types";
+import { FileUtils } from "../utils/fileUtils";
+import defaultLogger from "../utils/logger";
+
+/**
+ * 单次提取任务的工作目录：任务的中间文件都放在独立目录中，
+ * 并发处理同一视频时互不覆盖。目录外的文件（如下载目录中的视频）
+ * 也可以登记，清理时一并删除
+ */
+export class Workspace {
+  readonly id: string;
+  readonly dir: string;
+  private readonly artifacts = new Set<string>();
+  private readonly logger: Logger;
+  private cleaned = false;
+
+  constructor(id: string, dir: string, logger: Logger = defaultLogger) {
+    this.id = id;
+    this.dir = dir;
+    this.logger = logger;
+    FileUtils.ensureDir(dir);
+  }
+
+  /**
+   * 目录中指定文件名的路径，同时登记为中间文件
+   */
+  path(name: string): string {
+    return this.track(path.join(this.dir, FileUtils.sanitizeFilename(name)));
+  }
+
+  /**
+   * 登记中间文件，返回原路径
+   */
+  track(filePath: string): string {
+    this.artifacts.add(path.resolve(filePath));
+    return filePath;
+  }
+
+  /**
+   * 取消登记，文件不再随工作目录清理
+   */
+  release(filePath: string): void {
+    this.artifacts.delete(path.resolve(filePath));
+  }
+
+  /**
+   * 把中间文件移出工作目录保留下来，返回新路径
+   */
+  keep(filePath: string, targetPath: string): string {
+    FileUtils.moveFile(filePath, targetPath);
+    this.release(filePath);
+    return targetPath;
+  }
+
+  /**
+   * 已登记的中间文件
+   */
+  list(): string[] {
+    return [...this.artifacts];
+  }
+
+  /**
+   * 删除登记的中间文件和工作目录，重复调用时不做任何事
+   */
+  cleanup(): { deletedFiles: string[]; errors: string[] } {
+    if (this.cleaned) {
+      return { deletedFiles: [], errors: [] };
+    }
+    this.cleaned = true;
+
+    const existing = this.list().filter((filePath) => fs.existsSync(filePath));
+    const result = FileUtils.deleteFiles(existing);
+    try {
+      fs.rmSync(this.dir, { recursive: true, force: true });
+    } catch (error) {
+      result.errors.push(
+        `${this.dir}: ${error instanceof Error ? error.message : "未知错误"}`
+      );
+    }
+    this.artifacts.clear();
+
+    this.logger.debug("任务工作目录已清理", {
+      workspaceId: this.id,
+      dir: this.dir,
+      deletedFiles: result.deletedFiles,
+      errors: result.errors,
+    });
+    return result;
+  }
+}
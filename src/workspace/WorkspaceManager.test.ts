@@ -0,0 +1,57 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { WorkspaceManager } from "./WorkspaceManager";
+import { Logger } from "../types";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+describe("WorkspaceManager", () => {
+  let rootDir: string;
+  let staleDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "douyin-workspace-"));
+    // 上次运行遗留的任务目录：两天前修改，没有锁文件
+    staleDir = path.join(rootDir, "job_stale");
+    fs.mkdirSync(staleDir);
+    fs.writeFileSync(path.join(staleDir, "audio.mp3"), "data");
+    const twoDaysAgo = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    fs.utimesSync(staleDir, twoDaysAgo, twoDaysAgo);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("创建时清理遗留的任务目录", () => {
+    new WorkspaceManager({ rootDir, logger: silentLogger });
+
+    expect(fs.existsSync(staleDir)).toBe(false);
+  });
+
+  it("sweepOnStartup 为 false 时不清理", () => {
+    const manager = new WorkspaceManager({
+      rootDir,
+      sweepOnStartup: false,
+      logger: silentLogger,
+    });
+    const workspace = manager.create();
+
+    expect(fs.existsSync(staleDir)).toBe(true);
+    manager.finish(workspace, "success");
+  });
+
+  it("不清理其他运行中进程占用的目录", () => {
+    fs.writeFileSync(path.join(staleDir, ".lock"), String(process.pid));
+
+    new WorkspaceManager({ rootDir, logger: silentLogger });
+
+    expect(fs.existsSync(staleDir)).toBe(true);
+  });
+});
@@ -0,0 +1,185 @@
+import fs from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import {
+  Logger,
+  WorkspaceCleanupPolicy,
+  WorkspaceOptions,
+  WorkspaceOutcome,
+  WorkspaceSweepResult,
+} from "../types";
+import { FileUtils } from "../utils/fileUtils";
+import defaultLogger from "../utils/logger";
+import { Workspace } from "./Workspace";
+
+const JOB_DIR_PREFIX = "job_";
+/** 记录占用进程 pid 的锁文件，其他进程清理时跳过仍在运行的任务目录 */
+const LOCK_FILE = ".lock";
+
+export interface WorkspaceManagerOptions extends WorkspaceOptions {
+  /** 任务目录所在的根目录 */
+  rootDir: string;
+  logger?: Logger;
+}
+
+/**
+ * 管理 rootDir 下的任务工作目录（job_*）：创建、按策略清理，
+ * 并清理进程退出或崩溃后遗留的目录
+ */
+export class WorkspaceManager {
+  readonly rootDir: string;
+  private readonly cleanup: WorkspaceCleanupPolicy;
+  private readonly maxAge: number;
+  private readonly maxTotalSize?: number;
+  private readonly logger: Logger;
+  private readonly active = new Set<string>();
+
+  constructor(options: WorkspaceManagerOptions) {
+    this.rootDir = options.rootDir;
+    this.cleanup = options.cleanup ?? "always";
+    this.maxAge = options.maxAge ?? 24 * 60 * 60 * 1000;
+    this.maxTotalSize =
+      options.maxTotalSize !== undefined
+        ? FileUtils.parseFileSize(options.maxTotalSize)
+        : undefined;
+    this.logger = options.logger ?? defaultLogger;
+
+    // 启动时清理上次运行遗留的目录，不必等到第一个任务
+    if (options.sweepOnStartup !== false) {
+      try {
+        this.sweep();
+      } catch (error) {
+        this.logger.warn("清理遗留任务目录失败", {
+          rootDir: this.rootDir,
+          error: error instanceof Error ? error.message : "未知错误",
+        });
+      }
+    }
+  }
+
+  /**
+   * 为一次任务创建工作目录
+   */
+  create(): Workspace {
+    const id = uuidv4();
+    const workspace = new Workspace(
+      id,
+      path.join(this.rootDir, `${JOB_DIR_PREFIX}${id}`),
+      this.logger
+    );
+    this.active.add(workspace.dir);
+    fs.writeFileSync(path.join(workspace.dir, LOCK_FILE), String(process.pid));
+    this.logger.debug("创建任务工作目录", {
+      workspaceId: id,
+      dir: workspace.dir,
+    });
+    return workspace;
+  }
+
+  /**
+   * 任务结束时调用：按清理策略删除或保留工作目录，返回是否已清理
+   */
+  finish(workspace: Workspace, outcome: WorkspaceOutcome): boolean {
+    this.active.delete(workspace.dir);
+
+    if (!this.shouldCleanup(outcome)) {
+      // 保留的目录不再占用，之后可以按 maxAge 和 maxTotalSize 清理
+      FileUtils.deleteFile(path.join(workspace.dir, LOCK_FILE));
+      this.logger.info("按清理策略保留任务工作目录", {
+        workspaceId: workspace.id,
+        dir: workspace.dir,
+        outcome,
+        cleanup: this.cleanup,
+        files: workspace.list(),
+      });
+      return false;
+    }
+
+    const { deletedFiles, errors } = workspace.cleanup();
+    this.logger.info("任务工作目录清理完成", {
+      workspaceId: workspace.id,
+      outcome,
+      deletedCount: deletedFiles.length,
+      errors,
+    });
+    return true;
+  }
+
+  /**
+   * 指定结束方式下是否清理工作目录
+   */
+  shouldCleanup(outcome: WorkspaceOutcome): boolean {
+    if (this.cleanup === "always" || this.cleanup === "never") {
+      return this.cleanup === "always";
+    }
+    return this.cleanup.includes(outcome);
+  }
+
+  /**
+   * 清理遗留的任务目录：先删除超过 maxAge 未修改的目录，
+   * 总大小仍超过 maxTotalSize 时从最旧的目录开始删除。
+   * 本实例或其他仍在运行的进程正在使用的目录不会被删除
+   */
+  sweep(): WorkspaceSweepResult {
+    const result: WorkspaceSweepResult = {
+      removed: [],
+      freedBytes: 0,
+      remainingBytes: 0,
+    };
+    if (!fs.existsSync(this.rootDir)) {
+      return result;
+    }
+
+    const now = Date.now();
+    const jobs = fs
+      .readdirSync(this.rootDir, { withFileTypes: true })
+      .filter(
+        (entry) => entry.isDirectory() && entry.name.startsWith(JOB_DIR_PREFIX)
+      )
+      .map((entry) => path.join(this.rootDir, entry.name))
+      .filter(
+        (dir) =>
+          !this.active.has(dir) &&
+          !FileUtils.isLockHeld(path.join(dir, LOCK_FILE))
+      )
+      .map((dir) => ({
+        dir,
+        mtime: fs.statSync(dir).mtimeMs,
+        size: FileUtils.getPathSize(dir),
+      }))
+      .sort((a, b) => a.mtime - b.mtime);
+
+    let totalSize = jobs.reduce((total, job) => total + job.size, 0);
+    for (const job of jobs) {
+      const expired = this.maxAge > 0 && now - job.mtime > this.maxAge;
+      const overQuota =
+        this.maxTotalSize !== undefined && totalSize > this.maxTotalSize;
+      if (!expired && !overQuota) {
+        continue;
+      }
+
+      try {
+        fs.rmSync(job.dir, { recursive: true, force: true });
+        result.removed.push(job.dir);
+        result.freedBytes += job.size;
+        totalSize -= job.size;
+      } catch (error) {
+        this.logger.warn("删除遗留任务目录失败", {
+          dir: job.dir,
+          error: error instanceof Error ? error.message : "未知错误",
+        });
+      }
+    }
+    result.remainingBytes = totalSize;
+
+    if (result.removed.length > 0) {
+      this.logger.info("已清理遗留任务目录", {
+        rootDir: this.rootDir,
+        removedCount: result.removed.length,
+        freed: FileUtils.formatFileSize(result.freedBytes),
+        remaining: FileUtils.formatFileSize(result.remainingBytes),
+      });
+    }
+    return result;
+  }
+}
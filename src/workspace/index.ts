@@ -0,0 +1,2 @@
+export { Workspace } from "./Workspace";
+export { WorkspaceManager, WorkspaceManagerOptions } from "./WorkspaceManager";